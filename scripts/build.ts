@@ -192,6 +192,17 @@ const packageJson = {
       "node": "./src/node/lib.js",
       "default": "./src/lib/lib.js",
     },
+    "./runtime": {
+      "types": "./src/lib/runtime.d.ts",
+      "bun": "./src/lib/runtime.js",
+      "deno": "./src/deno/runtime.js",
+      "node": "./src/node/runtime.js",
+      "default": "./src/lib/runtime.js",
+    },
+    "./compiler": {
+      "types": "./src/lib/compiler.d.ts",
+      "default": "./src/lib/compiler.js",
+    },
   },
   scripts: {},
 };
@@ -0,0 +1,2 @@
+import "./polyfill.ts";
+export * from "../lib/runtime.ts";
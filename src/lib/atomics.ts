@@ -0,0 +1,336 @@
+import {
+  assertCanBlock,
+  type LockOptions,
+  register,
+  SharedStruct,
+  waitBounded,
+  waitBoundedSync,
+} from "./primitives.ts";
+
+// Word 0 is what waiters sleep on: the value itself for 32-bit types, or a
+// change counter next to 64-bit values, which `Atomics.waitAsync` cannot watch
+// through an Int32Array. Word 1 counts waiters so writers skip the notify
+// when nobody is waiting.
+const WORD = 0;
+const WAITERS = 1;
+// Index of the 64-bit value in a BigInt64Array over the same buffer
+const WIDE = 1;
+
+// BigInt64Array views per buffer, kept outside the instances so they are not
+// cloned into workers and stay correct after Global<T> swaps the buffer.
+const WIDE_VIEWS = new WeakMap<SharedArrayBuffer, BigInt64Array>();
+
+const F64 = new Float64Array(1);
+const BITS = new BigInt64Array(F64.buffer);
+
+const toBits = (value: number) => {
+  F64[0] = value;
+  return BITS[0]!;
+};
+const fromBits = (bits: bigint) => {
+  BITS[0] = bits;
+  return F64[0]!;
+};
+
+/** SameValueZero, so that waiting for `NaN` works. */
+const same = <T>(a: T, b: T) => a === b || (a !== a && b !== b);
+
+abstract class AtomicCell<T> extends SharedStruct {
+  abstract load(): T;
+
+  /** Waits until the value equals `value`. */
+  async waitUntil(value: T, options: LockOptions = {}): Promise<void> {
+    const start = performance.now();
+    Atomics.add(this.state, WAITERS, 1);
+    try {
+      while (true) {
+        const word = Atomics.load(this.state, WORD);
+        if (same(this.load(), value)) return;
+        await waitBounded(this.state, WORD, word, options, start);
+      }
+    } finally {
+      Atomics.sub(this.state, WAITERS, 1);
+    }
+  }
+
+  /** Blocking variant of `waitUntil()`. */
+  waitUntilSync(value: T, { timeout }: Pick<LockOptions, "timeout"> = {}): void {
+    assertCanBlock();
+    const start = performance.now();
+    Atomics.add(this.state, WAITERS, 1);
+    try {
+      while (true) {
+        const word = Atomics.load(this.state, WORD);
+        if (same(this.load(), value)) return;
+        waitBoundedSync(this.state, WORD, word, timeout, start);
+      }
+    } finally {
+      Atomics.sub(this.state, WAITERS, 1);
+    }
+  }
+
+  /** Wakes waiters after the value changed. */
+  protected _changed() {
+    if (Atomics.load(this.state, WAITERS) > 0) Atomics.notify(this.state, WORD);
+  }
+}
+
+abstract class WideAtomicCell<T> extends AtomicCell<T> {
+  protected get _wide(): BigInt64Array {
+    const buffer = this.state.buffer as SharedArrayBuffer;
+    let view = WIDE_VIEWS.get(buffer);
+    if (!view) WIDE_VIEWS.set(buffer, view = new BigInt64Array(buffer));
+    return view;
+  }
+
+  protected override _changed() {
+    Atomics.add(this.state, WORD, 1);
+    super._changed();
+  }
+}
+
+/** A shared 32-bit signed integer with atomic operations. */
+export class AtomicInt32 extends AtomicCell<number> {
+  constructor(arg: number | SharedArrayBuffer = 0, isHydrating = false) {
+    const isStateBuffer = isHydrating && arg instanceof SharedArrayBuffer;
+    super("AtomicInt32", isStateBuffer ? arg : 8, 2);
+    if (!isStateBuffer) this.state[WORD] = arg as number;
+  }
+
+  load(): number {
+    return Atomics.load(this.state, WORD);
+  }
+
+  store(value: number) {
+    Atomics.store(this.state, WORD, value);
+    this._changed();
+  }
+
+  /** Adds `delta` and returns the previous value. */
+  add(delta: number): number {
+    const previous = Atomics.add(this.state, WORD, delta);
+    this._changed();
+    return previous;
+  }
+
+  /** Subtracts `delta` and returns the previous value. */
+  sub(delta: number): number {
+    const previous = Atomics.sub(this.state, WORD, delta);
+    this._changed();
+    return previous;
+  }
+
+  /** Stores `value` and returns the previous value. */
+  exchange(value: number): number {
+    const previous = Atomics.exchange(this.state, WORD, value);
+    this._changed();
+    return previous;
+  }
+
+  /** Stores `replacement` if the value equals `expected`; returns the previous value. */
+  compareExchange(expected: number, replacement: number): number {
+    const previous = Atomics.compareExchange(this.state, WORD, expected, replacement);
+    if (previous === (expected | 0)) this._changed();
+    return previous;
+  }
+
+  /** Stores `value` if it is greater than the current value; returns the previous value. */
+  fetchMax(value: number): number {
+    let current = this.load();
+    while (current < value) {
+      const previous = Atomics.compareExchange(this.state, WORD, current, value);
+      if (previous === current) {
+        this._changed();
+        break;
+      }
+      current = previous;
+    }
+    return current;
+  }
+
+  static {
+    register("AtomicInt32", this);
+  }
+}
+
+/** A shared 64-bit signed integer with atomic operations. */
+export class AtomicBigInt64 extends WideAtomicCell<bigint> {
+  constructor(arg: bigint | SharedArrayBuffer = 0n, isHydrating = false) {
+    const isStateBuffer = isHydrating && arg instanceof SharedArrayBuffer;
+    super("AtomicBigInt64", isStateBuffer ? arg : 16, 4);
+    if (!isStateBuffer) this._wide[WIDE] = arg as bigint;
+  }
+
+  load(): bigint {
+    return Atomics.load(this._wide, WIDE);
+  }
+
+  store(value: bigint) {
+    Atomics.store(this._wide, WIDE, value);
+    this._changed();
+  }
+
+  /** Adds `delta` and returns the previous value. */
+  add(delta: bigint): bigint {
+    const previous = Atomics.add(this._wide, WIDE, delta);
+    this._changed();
+    return previous;
+  }
+
+  /** Subtracts `delta` and returns the previous value. */
+  sub(delta: bigint): bigint {
+    const previous = Atomics.sub(this._wide, WIDE, delta);
+    this._changed();
+    return previous;
+  }
+
+  /** Stores `value` and returns the previous value. */
+  exchange(value: bigint): bigint {
+    const previous = Atomics.exchange(this._wide, WIDE, value);
+    this._changed();
+    return previous;
+  }
+
+  /** Stores `replacement` if the value equals `expected`; returns the previous value. */
+  compareExchange(expected: bigint, replacement: bigint): bigint {
+    const previous = Atomics.compareExchange(this._wide, WIDE, expected, replacement);
+    if (previous === BigInt.asIntN(64, expected)) this._changed();
+    return previous;
+  }
+
+  /** Stores `value` if it is greater than the current value; returns the previous value. */
+  fetchMax(value: bigint): bigint {
+    let current = this.load();
+    while (current < value) {
+      const previous = Atomics.compareExchange(this._wide, WIDE, current, value);
+      if (previous === current) {
+        this._changed();
+        break;
+      }
+      current = previous;
+    }
+    return current;
+  }
+
+  static {
+    register("AtomicBigInt64", this);
+  }
+}
+
+/**
+ * A shared float64. There are no atomic float instructions, so updates are
+ * compare-and-swap loops over the value's bits.
+ */
+export class AtomicFloat64 extends WideAtomicCell<number> {
+  constructor(arg: number | SharedArrayBuffer = 0, isHydrating = false) {
+    const isStateBuffer = isHydrating && arg instanceof SharedArrayBuffer;
+    super("AtomicFloat64", isStateBuffer ? arg : 16, 4);
+    if (!isStateBuffer) this._wide[WIDE] = toBits(arg as number);
+  }
+
+  load(): number {
+    return fromBits(Atomics.load(this._wide, WIDE));
+  }
+
+  store(value: number) {
+    Atomics.store(this._wide, WIDE, toBits(value));
+    this._changed();
+  }
+
+  /** Adds `delta` and returns the previous value. */
+  add(delta: number): number {
+    return this._update((current) => current + delta)!;
+  }
+
+  /** Subtracts `delta` and returns the previous value. */
+  sub(delta: number): number {
+    return this._update((current) => current - delta)!;
+  }
+
+  /** Stores `value` and returns the previous value. */
+  exchange(value: number): number {
+    const previous = fromBits(Atomics.exchange(this._wide, WIDE, toBits(value)));
+    this._changed();
+    return previous;
+  }
+
+  /**
+   * Stores `replacement` if the value equals `expected` (as compared by `===`,
+   * so `0` matches `-0` and `NaN` never matches); returns the previous value.
+   */
+  compareExchange(expected: number, replacement: number): number {
+    let previous = this.load();
+    this._update((current) => {
+      previous = current;
+      return current === expected ? replacement : undefined;
+    });
+    return previous;
+  }
+
+  /** Stores `value` if it is greater than the current value; returns the previous value. */
+  fetchMax(value: number): number {
+    let previous = this.load();
+    this._update((current) => {
+      previous = current;
+      return value > current ? value : undefined;
+    });
+    return previous;
+  }
+
+  /**
+   * Replaces the value with `fn(current)` unless it returns `undefined`,
+   * retrying if another thread wrote in between. Returns the replaced value.
+   */
+  private _update(fn: (current: number) => number | undefined): number | undefined {
+    while (true) {
+      const bits = Atomics.load(this._wide, WIDE);
+      const current = fromBits(bits);
+      const next = fn(current);
+      if (next === undefined) return undefined;
+      if (Atomics.compareExchange(this._wide, WIDE, bits, toBits(next)) === bits) {
+        this._changed();
+        return current;
+      }
+    }
+  }
+
+  static {
+    register("AtomicFloat64", this);
+  }
+}
+
+/** A shared boolean flag. */
+export class AtomicBool extends AtomicCell<boolean> {
+  constructor(arg: boolean | SharedArrayBuffer = false, isHydrating = false) {
+    const isStateBuffer = isHydrating && arg instanceof SharedArrayBuffer;
+    super("AtomicBool", isStateBuffer ? arg : 8, 2);
+    if (!isStateBuffer) this.state[WORD] = arg ? 1 : 0;
+  }
+
+  load(): boolean {
+    return Atomics.load(this.state, WORD) === 1;
+  }
+
+  store(value: boolean) {
+    Atomics.store(this.state, WORD, value ? 1 : 0);
+    this._changed();
+  }
+
+  /** Stores `value` and returns the previous value. */
+  exchange(value: boolean): boolean {
+    const previous = Atomics.exchange(this.state, WORD, value ? 1 : 0) === 1;
+    this._changed();
+    return previous;
+  }
+
+  /** Stores `replacement` if the value equals `expected`; returns the previous value. */
+  compareExchange(expected: boolean, replacement: boolean): boolean {
+    const previous = Atomics.compareExchange(this.state, WORD, expected ? 1 : 0, replacement ? 1 : 0) === 1;
+    if (previous === expected) this._changed();
+    return previous;
+  }
+
+  static {
+    register("AtomicBool", this);
+  }
+}
@@ -0,0 +1,330 @@
+// Static analysis of spawn() closures and generation of their worker modules,
+// shared by spawn() at run time and the ahead-of-time compiler. This is the
+// only part of the library that needs the TypeScript compiler.
+
+import ts from "typescript";
+import { extname } from "node:path";
+import {
+  composeSourceMaps,
+  inlineSourceMap,
+  parseSourceMap,
+  readInlineSourceMap,
+  type Segment,
+  type SourceMap,
+  tokenColumns,
+} from "./sourcemap.ts";
+
+/** @internal The names a closure captures from the scopes around it. */
+export interface ClosureAnalysis {
+  locals: string[];
+  topLevels: string[];
+  /** Top-level variables holding runtime state the worker would recompute. */
+  topLevelVariables: string[];
+  /** Where the closure first refers to each captured name, as `file:line:col`. */
+  sites: Record<string, string>;
+}
+
+/** @internal A worker module, ready to be written next to its caller's source or to `.workers`. */
+export interface WorkerSource {
+  code: string;
+  /** File extension the runtime needs to load `code`. */
+  extension: string;
+  /** Maps `code` back to the caller's source. */
+  sourceMap: SourceMap;
+}
+
+interface PatchedSource {
+  code: string;
+  /** Segments of each line of `code`, pointing into the unpatched code. */
+  lines: Segment[][];
+}
+
+const PATCHED_SOURCE_CACHE = new Map<string, PatchedSource>();
+
+const NO_CHECK_HEADER = "// @ts-nocheck: auto-generated worker file\n";
+const WORKER_SPLIT_MARKER = "/* __INJECTED_WORKER_BOOTSTRAP__ */";
+
+/**
+ * @internal The innermost `spawn()` call spanning `pos`. With source-mapped
+ * stacks, a nested spawn() reports a site inside the closure of the spawn()
+ * that started its worker.
+ */
+export function findSpawnCall(file: ts.SourceFile, pos: number): ts.CallExpression | undefined {
+  let found: ts.CallExpression | undefined;
+  const visit = (n: ts.Node) => {
+    if (n.pos > pos || n.end < pos) return;
+    if (isSpawnCall(n)) found = n;
+    ts.forEachChild(n, visit);
+  };
+  visit(file);
+  return found;
+}
+
+/** @internal */
+export function isSpawnCall(n: ts.Node): n is ts.CallExpression {
+  return ts.isCallExpression(n) && n.expression.getText() === "spawn";
+}
+
+/**
+ * @internal Finds the free variables of `fnNode`: identifiers it refers to
+ * that are declared outside of it. `location` names the file in `sites`.
+ */
+export function analyzeClosure(file: ts.SourceFile, fnNode: ts.Node, location: string): ClosureAnalysis {
+  const locals = new Set<string>();
+  const topLevels = new Set<string>();
+  const topLevelVariables = new Set<string>();
+  const sites: Record<string, string> = {};
+
+  const isExternal = (n: ts.Node) => {
+    let p: ts.Node | undefined = n;
+    while (p) {
+      if (p === fnNode) return false;
+      p = p.parent;
+    }
+    return true;
+  };
+
+  const visit = (n: ts.Node) => {
+    if (ts.isIdentifier(n) && isValidUsage(n)) {
+      let curr: ts.Node | undefined = n.parent;
+      while (curr) {
+        if (defines(curr, n.text)) {
+          if (isExternal(curr)) {
+            if (ts.isSourceFile(curr)) topLevels.add(n.text);
+            else locals.add(n.text);
+            if (ts.isSourceFile(curr) && declaresState(curr, n.text)) topLevelVariables.add(n.text);
+            if (!sites[n.text]) {
+              const { line, character } = file.getLineAndCharacterOfPosition(n.getStart());
+              sites[n.text] = `${location}:${line + 1}:${character + 1}`;
+            }
+          }
+          break;
+        }
+        curr = curr.parent;
+      }
+    }
+    ts.forEachChild(n, visit);
+  };
+  visit(fnNode);
+
+  return {
+    locals: [...locals],
+    topLevels: [...topLevels],
+    topLevelVariables: [...topLevelVariables],
+    sites,
+  };
+}
+
+/**
+ * Whether `name` is a top-level variable whose value the worker's copy of the
+ * module would compute afresh. Imports and functions or classes, declared or
+ * assigned to a variable, come out the same in every copy.
+ */
+function declaresState(file: ts.SourceFile, name: string): boolean {
+  return file.statements.some((s) =>
+    ts.isVariableStatement(s) &&
+    s.declarationList.declarations.some((d) =>
+      bindingHasName(d.name, name) &&
+      !(d.initializer && (ts.isFunctionLike(d.initializer) || ts.isClassExpression(d.initializer)))
+    )
+  );
+}
+
+function isValidUsage(n: ts.Node): boolean {
+  const p = n.parent;
+  if (
+    (ts.isPropertyAccessExpression(p) || ts.isPropertyAssignment(p)) &&
+    p.name === n
+  ) return false;
+  if (
+    (ts.isVariableDeclaration(p) || ts.isParameter(p) ||
+      ts.isBindingElement(p)) && p.name === n
+  ) return false;
+  if (ts.isImportSpecifier(p) && p.propertyName === n) return false;
+  return true;
+}
+
+function defines(n: ts.Node, name: string): boolean {
+  if (ts.isFunctionLike(n)) {
+    return n.parameters.some((p) => bindingHasName(p.name, name));
+  }
+
+  if (ts.isBlock(n) || ts.isSourceFile(n)) {
+    return n.statements.some((s) => {
+      if (ts.isVariableStatement(s)) {
+        return s.declarationList.declarations.some((d) =>
+          bindingHasName(d.name, name)
+        );
+      }
+      if (
+        (ts.isFunctionDeclaration(s) || ts.isClassDeclaration(s)) &&
+        s.name?.text === name
+      ) return true;
+      if (ts.isImportDeclaration(s) && s.importClause) {
+        const { name: importedName, namedBindings } = s.importClause;
+        if (importedName?.text === name) return true;
+        if (namedBindings) {
+          if (ts.isNamedImports(namedBindings)) {
+            return namedBindings.elements.some((e) => e.name.text === name);
+          }
+          if (ts.isNamespaceImport(namedBindings)) {
+            return namedBindings.name.text === name;
+          }
+        }
+      }
+      return false;
+    });
+  }
+
+  if (
+    ts.isForStatement(n) && n.initializer &&
+    ts.isVariableDeclarationList(n.initializer)
+  ) {
+    return n.initializer.declarations.some((d) => bindingHasName(d.name, name));
+  }
+
+  if (ts.isCatchClause(n) && n.variableDeclaration) {
+    return bindingHasName(n.variableDeclaration.name, name);
+  }
+
+  return false;
+}
+
+function bindingHasName(node: ts.BindingName, name: string): boolean {
+  if (ts.isIdentifier(node)) return node.text === name;
+  if (ts.isObjectBindingPattern(node)) {
+    return node.elements.some((el) => bindingHasName(el.name, name));
+  }
+  if (ts.isArrayBindingPattern(node)) {
+    return node.elements.some((el) =>
+      ts.isBindingElement(el) && bindingHasName(el.name, name)
+    );
+  }
+  return false;
+}
+
+/**
+ * @internal Builds the worker module for a closure: the caller's module, with
+ * relative imports made absolute, which then registers the closure under the
+ * site's `key` like precompiled modules do. Top-level names the parent does
+ * not send, because the worker's own copy is the one to use, are taken from
+ * the module.
+ */
+export function workerSource(
+  url: string,
+  sourceCode: string,
+  { locals, topLevels }: Pick<ClosureAnalysis, "locals" | "topLevels">,
+  fnText: string,
+  /** Where `fnText` starts in the caller's source, 1-based, if it is copied from there. */
+  closure: { line: number; col: number } | undefined,
+  key: string,
+): WorkerSource {
+  let rawCode = sourceCode;
+  const splitIdx = rawCode.indexOf(WORKER_SPLIT_MARKER);
+  if (splitIdx > -1) rawCode = rawCode.substring(0, splitIdx);
+  // Strip existing header to avoid doubling it in nested workers
+  const hadHeader = rawCode.startsWith(NO_CHECK_HEADER);
+  if (hadHeader) rawCode = rawCode.substring(NO_CHECK_HEADER.length);
+
+  let patched = PATCHED_SOURCE_CACHE.get(url);
+  if (!patched) {
+    patched = patchImports(rawCode, url);
+    PATCHED_SOURCE_CACHE.set(url, patched);
+  }
+
+  const params = [...new Set([...locals, ...topLevels])];
+  const defaults = topLevels.map((name) => `${name}, `).join("");
+  const wrapper = `(__props__) => (({${params.join(",")}}) => ${fnText})({ ${defaults}...__props__ })`;
+  const moduleCode = NO_CHECK_HEADER + patched.code;
+  let code = `${moduleCode}${WORKER_SPLIT_MARKER}
+Object.assign(globalThis.__worker_tasks__ ??= {}, { ${JSON.stringify(key)}: ${wrapper} });
+`;
+
+  // Positions in the generated file: the module keeps its lines below the
+  // header, and the closure its tokens
+  const lines: Segment[][] = [[]];
+  const rawLineOffset = hadHeader ? 1 : 0;
+  for (const segments of patched.lines) {
+    lines.push(segments.map(([col, source, line, originalCol]) => [col, source, line + rawLineOffset, originalCol]));
+  }
+  while (lines.length < code.split("\n").length) lines.push([]);
+  if (closure) {
+    const before = code.substring(0, code.lastIndexOf(fnText)).split("\n");
+    const startCol = before.at(-1)!.length;
+    fnText.split("\n").forEach((text, k) => {
+      lines[before.length - 1 + k] = tokenColumns(text).map((
+        c,
+      ) => [(k ? 0 : startCol) + c, 0, closure.line - 1 + k, (k ? 0 : closure.col - 1) + c]);
+    });
+  }
+  let sourceMap: SourceMap = { sources: [url], lines };
+
+  // A caller that is itself generated, or compiled with an inline source
+  // map, is mapped straight through to its own sources
+  const parentMap = readInlineSourceMap(sourceCode);
+  if (parentMap) {
+    parentMap.sources = parentMap.sources.map((source) => new URL(source, url).href);
+    sourceMap = composeSourceMaps(sourceMap, parentMap);
+  }
+
+  // Runtimes apply inline source maps to the JavaScript they execute, so
+  // TypeScript is compiled here rather than by the runtime. JSX is left to the
+  // runtime, and its stacks to remapStack().
+  let extension = extname(new URL(url).pathname) || ".js";
+  if (!/x$/.test(extension)) {
+    const output = ts.transpileModule(code, {
+      fileName: "worker.ts",
+      compilerOptions: { target: ts.ScriptTarget.ESNext, module: ts.ModuleKind.ESNext, sourceMap: true },
+    });
+    code = output.outputText.replace(/\/\/# sourceMappingURL=.*\s*$/, "");
+    sourceMap = composeSourceMaps(parseSourceMap(output.sourceMapText!), sourceMap);
+    code += `${inlineSourceMap(sourceMap)}\n`;
+    extension = extension === ".mts" ? ".mjs" : ".js";
+  }
+
+  return { code, extension, sourceMap };
+}
+
+function patchImports(code: string, base: string): PatchedSource {
+  const resolve = (p: string) => /^\.\.?\//.test(p) ? new URL(p, base).href : p;
+
+  const sourceFile = ts.createSourceFile(
+    new URL(base).pathname,
+    code,
+    ts.ScriptTarget.ESNext,
+    true,
+  );
+
+  // Specifiers are replaced in place, so every line keeps its number and
+  // only columns after a specifier shift
+  const edits: { start: number; end: number; text: string }[] = [];
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) && !ts.isExportDeclaration(statement)) continue;
+    const specifier = statement.moduleSpecifier;
+    if (!specifier || !ts.isStringLiteral(specifier)) continue;
+    edits.push({ start: specifier.getStart(), end: specifier.end, text: JSON.stringify(resolve(specifier.text)) });
+  }
+
+  let patched = code;
+  for (const { start, end, text } of [...edits].reverse()) {
+    patched = patched.substring(0, start) + text + patched.substring(end);
+  }
+  if (!patched.endsWith("\n")) patched += "\n";
+
+  let lineStart = 0;
+  const lines = code.split("\n").map((line, i): Segment[] => {
+    const segments: Segment[] = [];
+    for (const col of tokenColumns(line)) {
+      const pos = lineStart + col;
+      if (edits.some((e) => pos > e.start && pos < e.end)) continue;
+      let shift = 0;
+      for (const e of edits) {
+        if (e.start >= lineStart && e.end <= pos) shift += e.text.length - (e.end - e.start);
+      }
+      segments.push([col + shift, 0, i, col]);
+    }
+    lineStart += line.length + 1;
+    return segments;
+  });
+  return { code: patched, lines };
+}
@@ -0,0 +1,517 @@
+import { decodeText, growSharedBuffer, register, SharedStruct, withSpinLock } from "./primitives.ts";
+
+/** Values that shared collections can hold. */
+export type SharedPrimitive = string | number | boolean | null;
+
+export interface SharedCollectionOptions {
+  /** Size in bytes the backing buffer may grow to (default: 64 MiB). */
+  maxByteLength?: number;
+}
+
+const DEFAULT_MAX_BYTE_LENGTH = 64 * 1024 * 1024;
+const INITIAL_BYTE_LENGTH = 1024;
+const INITIAL_CAPACITY = 8;
+
+// Header words in `state`. The cells and strings live in `_data`, a growable
+// buffer carved up by a bump allocator: replaced strings and tables become
+// garbage that is compacted away before the buffer is grown.
+const LOCK = 0;
+const LENGTH = 1;
+const TABLE = 2; // byte offset of the cell table in `_data`
+const CAPACITY = 3; // cells (SharedArray) or buckets (SharedMap) in the table
+const USED = 4;
+const GARBAGE = 5;
+const DELETED = 6;
+const STATE_INTS = 8;
+
+// Every element, key and value is a 16-byte cell: a tag followed by either a
+// float64 or the byte length and offset of a UTF-8 string.
+const CELL = 16;
+const TAG_EMPTY = 0;
+const TAG_DELETED = 1;
+const TAG_NULL = 2;
+const TAG_FALSE = 3;
+const TAG_TRUE = 4;
+const TAG_NUMBER = 5;
+const TAG_STRING = 6;
+
+interface Encoded {
+  tag: number;
+  num: number;
+  bytes: Uint8Array | null;
+}
+
+const align8 = (n: number) => (n + 7) & ~7;
+const arenaSize = (e: Encoded) => e.bytes ? align8(e.bytes.byteLength) : 0;
+
+function encode(value: unknown): Encoded {
+  switch (typeof value) {
+    case "number":
+      return { tag: TAG_NUMBER, num: value, bytes: null };
+    case "string":
+      return { tag: TAG_STRING, num: 0, bytes: new TextEncoder().encode(value) };
+    case "boolean":
+      return { tag: value ? TAG_TRUE : TAG_FALSE, num: 0, bytes: null };
+  }
+  if (value === null) return { tag: TAG_NULL, num: 0, bytes: null };
+  throw new TypeError("Shared collections only hold strings, numbers, booleans and null");
+}
+
+const F64 = new Float64Array(1);
+const U32 = new Uint32Array(F64.buffer);
+
+function hashBytes(bytes: Uint8Array) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) h = Math.imul(h ^ bytes[i]!, 0x01000193);
+  return h >>> 0;
+}
+
+/** Hash consistent with SameValueZero, like `Map` keys. */
+function hash(e: Encoded) {
+  if (e.bytes) return hashBytes(e.bytes);
+  if (e.tag !== TAG_NUMBER) return e.tag;
+  F64[0] = e.num === 0 ? 0 : Number.isNaN(e.num) ? NaN : e.num;
+  const h = Math.imul(U32[0]! ^ Math.imul(U32[1]!, 0x9e3779b1), 0x85ebca6b);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+abstract class SharedCollection extends SharedStruct {
+  protected _data: SharedArrayBuffer;
+
+  constructor(
+    name: string,
+    arg: SharedArrayBuffer | undefined,
+    { maxByteLength = DEFAULT_MAX_BYTE_LENGTH }: SharedCollectionOptions,
+  ) {
+    super(name, arg ?? STATE_INTS * 4, STATE_INTS);
+    this._data = arg
+      ? (undefined as unknown as SharedArrayBuffer)
+      : new SharedArrayBuffer(Math.min(INITIAL_BYTE_LENGTH, maxByteLength), { maxByteLength });
+  }
+
+  /** Number of elements or entries. */
+  protected get _length(): number {
+    return Atomics.load(this.state, LENGTH);
+  }
+
+  /** Rewrites all live contents from offset 0 of `_data`. */
+  protected abstract _compact(): void;
+
+  protected _view() {
+    return new DataView(this._data);
+  }
+
+  /**
+   * Makes room for `bytes` more bytes, compacting or growing the buffer.
+   * Returns `false` after compacting, since that moves every offset and the
+   * caller has to recompute what it needs.
+   */
+  protected _reserve(bytes: number): boolean {
+    const used = this.state[USED]!;
+    if (used + bytes <= this._data.byteLength) return true;
+
+    if (this.state[GARBAGE]! * 2 >= used && this.state[GARBAGE]! > 0) {
+      this._compact();
+      return false;
+    }
+
+    const { maxByteLength } = this._data;
+    if (used + bytes > maxByteLength) {
+      throw new RangeError(
+        `${this.__cls} cannot grow beyond its maxByteLength of ${maxByteLength} bytes`,
+      );
+    }
+    growSharedBuffer(this._data, Math.min(Math.max(used + bytes, this._data.byteLength * 2), maxByteLength));
+    return true;
+  }
+
+  /** Hands out `bytes` bytes reserved through `_reserve()`. */
+  protected _alloc(bytes: number) {
+    const offset = this.state[USED]!;
+    this.state[USED] = offset + align8(bytes);
+    return offset;
+  }
+
+  /** Allocates a table of `capacity * cellsPer` empty cells. */
+  protected _allocTable(capacity: number, cellsPer: number) {
+    const bytes = capacity * cellsPer * CELL;
+    const offset = this._alloc(bytes);
+    new Uint8Array(this._data, offset, bytes).fill(0);
+    this.state[TABLE] = offset;
+    this.state[CAPACITY] = capacity;
+    return offset;
+  }
+
+  /** Drops all contents and starts over with an empty table. */
+  protected _reset(capacity: number, cellsPer: number) {
+    this.state[USED] = 0;
+    this.state[GARBAGE] = 0;
+    this.state[DELETED] = 0;
+    Atomics.store(this.state, LENGTH, 0);
+    this._allocTable(capacity, cellsPer);
+  }
+
+  protected _read(view: DataView, at: number): SharedPrimitive {
+    switch (view.getInt32(at, true)) {
+      case TAG_NULL:
+        return null;
+      case TAG_FALSE:
+        return false;
+      case TAG_TRUE:
+        return true;
+      case TAG_NUMBER:
+        return view.getFloat64(at + 8, true);
+      default: {
+        return decodeText(this._data, view.getUint32(at + 8, true), view.getUint32(at + 4, true));
+      }
+    }
+  }
+
+  protected _write(view: DataView, at: number, e: Encoded) {
+    view.setInt32(at, e.tag, true);
+    if (e.bytes) {
+      const offset = this._alloc(e.bytes.byteLength);
+      new Uint8Array(this._data, offset, e.bytes.byteLength).set(e.bytes);
+      view.setUint32(at + 4, e.bytes.byteLength, true);
+      view.setUint32(at + 8, offset, true);
+    } else {
+      view.setFloat64(at + 8, e.num, true);
+    }
+  }
+
+  /** Accounts for the string a cell is about to stop referencing. */
+  protected _free(view: DataView, at: number) {
+    if (view.getInt32(at, true) === TAG_STRING) {
+      this.state[GARBAGE]! += align8(view.getUint32(at + 4, true));
+    }
+  }
+
+  protected _equals(view: DataView, at: number, e: Encoded) {
+    const tag = view.getInt32(at, true);
+    if (tag !== e.tag) return false;
+    if (tag === TAG_NUMBER) {
+      const n = view.getFloat64(at + 8, true);
+      return n === e.num || (Number.isNaN(n) && Number.isNaN(e.num));
+    }
+    if (tag !== TAG_STRING) return true;
+    const length = view.getUint32(at + 4, true);
+    if (length !== e.bytes!.byteLength) return false;
+    const stored = new Uint8Array(this._data, view.getUint32(at + 8, true), length);
+    for (let i = 0; i < length; i++) if (stored[i] !== e.bytes![i]) return false;
+    return true;
+  }
+
+  protected _locked<R>(fn: () => R): R {
+    return withSpinLock(this.state, LOCK, fn);
+  }
+}
+
+/**
+ * A growable array of strings, numbers, booleans and `null` in shared memory.
+ * Every thread holding it sees the same elements.
+ */
+export class SharedArray<T extends SharedPrimitive = SharedPrimitive> extends SharedCollection {
+  constructor(
+    arg: Iterable<T> | SharedArrayBuffer = [],
+    options: SharedCollectionOptions | boolean = false,
+  ) {
+    const isStateBuffer = options === true && arg instanceof SharedArrayBuffer;
+    super("SharedArray", isStateBuffer ? arg : undefined, typeof options === "object" ? options : {});
+    if (!isStateBuffer) {
+      this._reset(INITIAL_CAPACITY, 1);
+      this.push(...arg as Iterable<T>);
+    }
+  }
+
+  get length(): number {
+    return this._length;
+  }
+
+  /** Returns the element at `index`, or `undefined` if it is out of bounds. */
+  get(index: number): T | undefined {
+    return this._locked(() => {
+      if (!(index >= 0 && index < this.state[LENGTH]!)) return undefined;
+      return this._read(this._view(), this._cell(index)) as T;
+    });
+  }
+
+  /** Replaces the element at `index`, which must be within bounds. */
+  set(index: number, value: T) {
+    const e = encode(value);
+    this._locked(() => {
+      if (!(Number.isInteger(index) && index >= 0 && index < this.state[LENGTH]!)) {
+        throw new RangeError(`Index ${index} is out of bounds for a SharedArray of length ${this.state[LENGTH]}`);
+      }
+      while (!this._reserve(arenaSize(e)));
+      const view = this._view();
+      this._free(view, this._cell(index));
+      this._write(view, this._cell(index), e);
+    });
+  }
+
+  /** Appends values and returns the new length. */
+  push(...values: T[]): number {
+    const encoded = values.map(encode);
+    return this._locked(() => {
+      for (const e of encoded) {
+        const length = this.state[LENGTH]!;
+        const capacity = this.state[CAPACITY]!;
+        const grows = length === capacity;
+        const need = arenaSize(e) + (grows ? capacity * 2 * CELL : 0);
+        // Compaction keeps the length and capacity, so `need` stays valid
+        while (!this._reserve(need));
+        if (grows) {
+          const from = this.state[TABLE]!;
+          const to = this._allocTable(capacity * 2, 1);
+          new Uint8Array(this._data, to, length * CELL).set(new Uint8Array(this._data, from, length * CELL));
+          this.state[GARBAGE]! += capacity * CELL;
+        }
+        this._write(this._view(), this._cell(length), e);
+        Atomics.store(this.state, LENGTH, length + 1);
+      }
+      return this.state[LENGTH]!;
+    });
+  }
+
+  /** Removes and returns the last element. */
+  pop(): T | undefined {
+    return this._locked(() => {
+      const length = this.state[LENGTH]!;
+      if (length === 0) return undefined;
+      const view = this._view();
+      const value = this._read(view, this._cell(length - 1)) as T;
+      this._free(view, this._cell(length - 1));
+      Atomics.store(this.state, LENGTH, length - 1);
+      return value;
+    });
+  }
+
+  clear() {
+    this._locked(() => this._reset(INITIAL_CAPACITY, 1));
+  }
+
+  /** Copies the current elements into a regular array. */
+  toArray(): T[] {
+    return this._locked(() => this._snapshot());
+  }
+
+  [Symbol.iterator](): IterableIterator<T> {
+    return this.toArray()[Symbol.iterator]();
+  }
+
+  protected _compact() {
+    const values = this._snapshot().map(encode);
+    this._reset(Math.max(INITIAL_CAPACITY, this.state[CAPACITY]!), 1);
+    const view = this._view();
+    values.forEach((e, i) => this._write(view, this._cell(i), e));
+    Atomics.store(this.state, LENGTH, values.length);
+  }
+
+  private _snapshot(): T[] {
+    const view = this._view();
+    return Array.from({ length: this.state[LENGTH]! }, (_, i) => this._read(view, this._cell(i)) as T);
+  }
+
+  private _cell(index: number) {
+    return this.state[TABLE]! + index * CELL;
+  }
+
+  static {
+    register("SharedArray", this);
+  }
+}
+
+/**
+ * A hash map with string, number, boolean or `null` keys and values in shared
+ * memory. Keys compare like `Map` keys (SameValueZero).
+ */
+export class SharedMap<K extends SharedPrimitive = SharedPrimitive, V extends SharedPrimitive = SharedPrimitive>
+  extends SharedCollection {
+  constructor(
+    arg: Iterable<readonly [K, V]> | SharedArrayBuffer = [],
+    options: SharedCollectionOptions | boolean = false,
+  ) {
+    const isStateBuffer = options === true && arg instanceof SharedArrayBuffer;
+    super("SharedMap", isStateBuffer ? arg : undefined, typeof options === "object" ? options : {});
+    if (!isStateBuffer) {
+      this._reset(INITIAL_CAPACITY, 2);
+      for (const [key, value] of arg as Iterable<readonly [K, V]>) this.set(key, value);
+    }
+  }
+
+  get size(): number {
+    return this._length;
+  }
+
+  get(key: K): V | undefined {
+    const k = encode(key);
+    return this._locked(() => {
+      const [bucket, found] = this._find(k);
+      return found ? this._read(this._view(), bucket + CELL) as V : undefined;
+    });
+  }
+
+  has(key: K): boolean {
+    const k = encode(key);
+    return this._locked(() => this._find(k)[1]);
+  }
+
+  set(key: K, value: V): this {
+    this._insert(encode(key), encode(value), true);
+    return this;
+  }
+
+  /**
+   * Inserts the entry only if `key` is not present yet. Returns whether it was
+   * inserted, which makes the map usable as a concurrent dedupe set.
+   */
+  setIfAbsent(key: K, value: V): boolean {
+    return this._insert(encode(key), encode(value), false);
+  }
+
+  delete(key: K): boolean {
+    const k = encode(key);
+    return this._locked(() => {
+      const [bucket, found] = this._find(k);
+      if (!found) return false;
+      const view = this._view();
+      this._free(view, bucket);
+      this._free(view, bucket + CELL);
+      view.setInt32(bucket, TAG_DELETED, true);
+      this.state[DELETED]!++;
+      Atomics.sub(this.state, LENGTH, 1);
+      return true;
+    });
+  }
+
+  clear() {
+    this._locked(() => this._reset(INITIAL_CAPACITY, 2));
+  }
+
+  /** Copies the current entries into an array. */
+  entries(): [K, V][] {
+    return this._locked(() => this._snapshot());
+  }
+
+  keys(): K[] {
+    return this.entries().map(([key]) => key);
+  }
+
+  values(): V[] {
+    return this.entries().map(([, value]) => value);
+  }
+
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries()[Symbol.iterator]();
+  }
+
+  protected _compact() {
+    const entries = this._snapshot().map(([key, value]) => [encode(key), encode(value)] as const);
+    this._reset(this.state[CAPACITY]!, 2);
+    for (const [k, v] of entries) this._place(k, v);
+  }
+
+  private _insert(k: Encoded, v: Encoded, replace: boolean): boolean {
+    return this._locked(() => {
+      while (true) {
+        const [bucket, found] = this._find(k);
+        if (found && !replace) return false;
+
+        const length = this.state[LENGTH]!;
+        const capacity = this.state[CAPACITY]!;
+        // Keep the load factor, tombstones included, at or below 3/4
+        const rehash = !found && (length + this.state[DELETED]! + 1) * 4 > capacity * 3;
+        const newCapacity = rehash ? Math.max(INITIAL_CAPACITY, 2 ** Math.ceil(Math.log2((length + 1) * 2))) : 0;
+        const need = arenaSize(v) + (found ? 0 : arenaSize(k)) + newCapacity * 2 * CELL;
+        if (!this._reserve(need)) continue;
+
+        if (found) {
+          const view = this._view();
+          this._free(view, bucket + CELL);
+          this._write(view, bucket + CELL, v);
+          return true;
+        }
+        if (rehash) this._rehash(newCapacity);
+        this._place(k, v);
+        return true;
+      }
+    });
+  }
+
+  /** Stores a new entry in the first free bucket of its probe sequence. */
+  private _place(k: Encoded, v: Encoded) {
+    const view = this._view();
+    const capacity = this.state[CAPACITY]!;
+    let i = hash(k) & (capacity - 1);
+    let bucket = this._bucket(i);
+    while (view.getInt32(bucket, true) > TAG_DELETED) {
+      i = (i + 1) & (capacity - 1);
+      bucket = this._bucket(i);
+    }
+    if (view.getInt32(bucket, true) === TAG_DELETED) this.state[DELETED]!--;
+    this._write(view, bucket, k);
+    this._write(view, bucket + CELL, v);
+    Atomics.add(this.state, LENGTH, 1);
+  }
+
+  /** Returns the bucket holding `k`, or where probing for it stopped. */
+  private _find(k: Encoded): [bucket: number, found: boolean] {
+    const view = this._view();
+    const capacity = this.state[CAPACITY]!;
+    let i = hash(k) & (capacity - 1);
+    for (let probes = 0; probes < capacity; probes++) {
+      const bucket = this._bucket(i);
+      const tag = view.getInt32(bucket, true);
+      if (tag === TAG_EMPTY) return [bucket, false];
+      if (tag !== TAG_DELETED && this._equals(view, bucket, k)) return [bucket, true];
+      i = (i + 1) & (capacity - 1);
+    }
+    return [-1, false];
+  }
+
+  /** Moves the live entries into a new table; their strings stay where they are. */
+  private _rehash(capacity: number) {
+    const view = this._view();
+    const from = this.state[TABLE]!;
+    const oldCapacity = this.state[CAPACITY]!;
+    const to = this._allocTable(capacity, 2);
+    this.state[DELETED] = 0;
+
+    for (let i = 0; i < oldCapacity; i++) {
+      const bucket = from + i * 2 * CELL;
+      const tag = view.getInt32(bucket, true);
+      if (tag <= TAG_DELETED) continue;
+
+      const key = tag === TAG_STRING
+        ? {
+          tag,
+          num: 0,
+          bytes: new Uint8Array(this._data, view.getUint32(bucket + 8, true), view.getUint32(bucket + 4, true)),
+        }
+        : { tag, num: view.getFloat64(bucket + 8, true), bytes: null };
+      let j = hash(key) & (capacity - 1);
+      while (view.getInt32(to + j * 2 * CELL, true) !== TAG_EMPTY) j = (j + 1) & (capacity - 1);
+      new Uint8Array(this._data, to + j * 2 * CELL, 2 * CELL).set(new Uint8Array(this._data, bucket, 2 * CELL));
+    }
+    this.state[GARBAGE]! += oldCapacity * 2 * CELL;
+  }
+
+  private _snapshot(): [K, V][] {
+    const view = this._view();
+    const entries: [K, V][] = [];
+    for (let i = 0; i < this.state[CAPACITY]!; i++) {
+      const bucket = this._bucket(i);
+      if (view.getInt32(bucket, true) <= TAG_DELETED) continue;
+      entries.push([this._read(view, bucket) as K, this._read(view, bucket + CELL) as V]);
+    }
+    return entries;
+  }
+
+  private _bucket(index: number) {
+    return this.state[TABLE]! + index * 2 * CELL;
+  }
+
+  static {
+    register("SharedMap", this);
+  }
+}
@@ -0,0 +1,186 @@
+import ts from "typescript";
+import { relative } from "node:path";
+import process from "node:process";
+import { analyzeClosure, isSpawnCall } from "./codegen.ts";
+
+export interface SpawnTransformerOptions {
+  /** Specifier the library is imported by (default: `"experimental-threads"`). */
+  library?: string;
+  /**
+   * Specifier of the library's runtime, which compiled modules import
+   * instead: it has no `spawn()` and does not load TypeScript (default:
+   * `"<library>/runtime"`).
+   */
+  runtime?: string;
+  /** Directory that call site locations are relative to (default: the working directory). */
+  rootDir?: string;
+}
+
+const f = ts.factory;
+
+/**
+ * A `before` transformer for `ts.Program.emit()` that compiles
+ * `eval(spawn(fn, options?))` call sites ahead of time. Each call becomes a
+ * direct call into the runtime with the captured variables, and `fn` is
+ * registered by its module in `globalThis.__worker_tasks__`, where the
+ * runtime's worker entry looks it up after importing the module. The
+ * registration survives bundling, and the output needs no `eval`, no
+ * TypeScript and no `.workers` directory at run time.
+ *
+ * `fn` must be a function literal, and every `spawn()` must be passed
+ * straight to `eval()`. The output must be an ES module.
+ */
+export function spawnTransformer(options: SpawnTransformerOptions = {}): ts.TransformerFactory<ts.SourceFile> {
+  const { library = "experimental-threads", rootDir = process.cwd() } = options;
+  const runtime = options.runtime ?? `${library}/runtime`;
+
+  return (context) => (file) => {
+    const location = relative(rootDir, file.fileName).replaceAll("\\", "/");
+    const positionOf = (node: ts.Node) => {
+      const { line, character } = file.getLineAndCharacterOfPosition(node.getStart());
+      return `${location}:${line + 1}:${character + 1}`;
+    };
+    const tasks: ts.PropertyAssignment[] = [];
+
+    const visitor: ts.Visitor = (node) => {
+      if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+        if (node.moduleSpecifier.text === library) return importRuntime(node, runtime);
+        return node;
+      }
+
+      if (isSpawnCall(node)) {
+        throw new Error(`${positionOf(node)}: spawn() must be passed straight to eval() to be precompiled`);
+      }
+      const spawnCall = ts.isCallExpression(node) && ts.isIdentifier(node.expression) &&
+        node.expression.text === "eval" && node.arguments[0] && isSpawnCall(node.arguments[0]) &&
+        node.arguments[0];
+      if (!spawnCall) return ts.visitEachChild(node, visitor, context);
+
+      const [fn, spawnOptions] = spawnCall.arguments;
+      if (!fn || !(ts.isArrowFunction(fn) || ts.isFunctionExpression(fn))) {
+        throw new Error(`${positionOf(spawnCall)}: spawn() must be given a function literal to be precompiled`);
+      }
+
+      const key = positionOf(spawnCall);
+      const { locals, topLevels: captured, topLevelVariables, sites } = analyzeClosure(file, fn, location);
+      // Nested spawn() calls are compiled away, so the closure no longer needs spawn itself
+      const topLevels = captured.filter((name) => name !== "spawn");
+      delete sites["spawn"];
+      const names = [...new Set([...locals, ...topLevels])];
+      // Nested sites are compiled along with the closure that contains them
+      const closure = ts.visitNode(fn, visitor) as ts.Expression;
+      tasks.push(f.createPropertyAssignment(f.createStringLiteral(key), workerTask(names, topLevels, closure)));
+
+      const site = f.createObjectLiteralExpression([
+        f.createPropertyAssignment("key", f.createStringLiteral(key)),
+        f.createPropertyAssignment("url", importMetaUrl()),
+        f.createPropertyAssignment("topLevels", literal(topLevels)),
+        f.createPropertyAssignment("topLevelVariables", literal(topLevelVariables)),
+        f.createPropertyAssignment("sites", literal(sites)),
+      ]);
+      const args: ts.Expression[] = [
+        f.createObjectLiteralExpression(names.map((name) => f.createShorthandPropertyAssignment(name))),
+        site,
+      ];
+      if (spawnOptions || fn.asteriskToken) {
+        args.push(spawnOptions ? ts.visitNode(spawnOptions, visitor) as ts.Expression : f.createVoidZero());
+      }
+      if (fn.asteriskToken) args.push(f.createTrue());
+      return f.createCallExpression(
+        f.createPropertyAccessExpression(f.createIdentifier("globalThis"), "__worker_wrapper__"),
+        undefined,
+        args,
+      );
+    };
+
+    const visited = ts.visitEachChild(file, visitor, context);
+    if (!tasks.length) return visited;
+
+    // A side effect rather than an export, which bundlers would drop
+    const registry = f.createBinaryExpression(
+      f.createPropertyAccessExpression(f.createIdentifier("globalThis"), "__worker_tasks__"),
+      ts.SyntaxKind.QuestionQuestionEqualsToken,
+      f.createObjectLiteralExpression(),
+    );
+    const register = f.createExpressionStatement(f.createCallExpression(
+      f.createPropertyAccessExpression(f.createIdentifier("Object"), "assign"),
+      undefined,
+      [registry, f.createObjectLiteralExpression(tasks)],
+    ));
+    // The compiled sites need the runtime loaded even if the imports of the
+    // library that are left only bring in types, which the emitter drops
+    const load = f.createImportDeclaration(undefined, undefined, f.createStringLiteral(runtime));
+    return f.updateSourceFile(visited, [load, ...visited.statements, register]);
+  };
+}
+
+/** Points an import of the library at its runtime, without `spawn`. */
+function importRuntime(node: ts.ImportDeclaration, runtime: string): ts.ImportDeclaration {
+  let clause = node.importClause;
+  const bindings = clause?.namedBindings;
+  if (clause && bindings && ts.isNamedImports(bindings)) {
+    const elements = bindings.elements.filter((e) => (e.propertyName ?? e.name).text !== "spawn");
+    clause = elements.length || clause.name
+      ? f.updateImportClause(
+        clause,
+        clause.isTypeOnly,
+        clause.name,
+        elements.length ? f.updateNamedImports(bindings, elements) : undefined,
+      )
+      : undefined;
+  }
+  return f.updateImportDeclaration(
+    node,
+    node.modifiers,
+    clause,
+    f.createStringLiteral(runtime),
+    node.attributes,
+  );
+}
+
+/**
+ * `(__props__) => (({...names}) => closure)({ ...topLevels, ...__props__ })`:
+ * the closure bound to the values sent by the parent, falling back to the
+ * module's own top-level variables for those it leaves out.
+ */
+function workerTask(names: string[], topLevels: string[], closure: ts.Expression): ts.ArrowFunction {
+  const bound = f.createArrowFunction(
+    undefined,
+    undefined,
+    [f.createParameterDeclaration(
+      undefined,
+      undefined,
+      f.createObjectBindingPattern(names.map((name) => f.createBindingElement(undefined, undefined, name))),
+    )],
+    undefined,
+    undefined,
+    closure,
+  );
+  const props = f.createObjectLiteralExpression([
+    ...topLevels.map((name) => f.createShorthandPropertyAssignment(name)),
+    f.createSpreadAssignment(f.createIdentifier("__props__")),
+  ]);
+  return f.createArrowFunction(
+    undefined,
+    undefined,
+    [f.createParameterDeclaration(undefined, undefined, "__props__")],
+    undefined,
+    undefined,
+    f.createCallExpression(f.createParenthesizedExpression(bound), undefined, [props]),
+  );
+}
+
+function importMetaUrl(): ts.Expression {
+  return f.createPropertyAccessExpression(
+    f.createMetaProperty(ts.SyntaxKind.ImportKeyword, f.createIdentifier("meta")),
+    "url",
+  );
+}
+
+function literal(value: string | string[] | Record<string, string>): ts.Expression {
+  if (typeof value === "string") return f.createStringLiteral(value);
+  if (Array.isArray(value)) return f.createArrayLiteralExpression(value.map(literal));
+  return f.createObjectLiteralExpression(
+    Object.entries(value).map(([name, v]) => f.createPropertyAssignment(f.createStringLiteral(name), literal(v))),
+  );
+}
@@ -0,0 +1,14 @@
+// Entry point of every worker. The module generated for a spawn() site, or a
+// precompiled caller (and the bundle it ended up in), registers its closures in
+// `globalThis.__worker_tasks__` as it loads, so the worker imports it and looks
+// the site up there. Being imported dynamically, that module is not
+// type-checked as the worker starts.
+
+import { runWorker } from "./worker.ts";
+
+runWorker(async ({ module, site }) => {
+  await import(module);
+  const task = globalThis.__worker_tasks__?.[site];
+  if (!task) throw new Error(`${module} has no spawn() site ${site}`);
+  return task;
+});
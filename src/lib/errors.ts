@@ -0,0 +1,166 @@
+import { isStructuredClonable } from "./utils.ts";
+
+/** Thrown when a spawned task is cancelled through its `AbortSignal`. */
+export class AbortError extends Error {
+  override name = "AbortError";
+
+  constructor(reason?: unknown) {
+    super("The operation was aborted", { cause: reason });
+  }
+}
+
+/** Thrown when a spawned task exceeds its `timeout`. */
+export class TimeoutError extends Error {
+  override name = "TimeoutError";
+
+  constructor(readonly timeout: number) {
+    super(`The operation timed out after ${timeout}ms`);
+  }
+}
+
+/** Thrown when a task cannot be queued because the pool's queue is full. */
+export class QueueFullError extends Error {
+  override name = "QueueFullError";
+
+  constructor(readonly maxQueueLength: number) {
+    super(`Worker queue is full (${maxQueueLength} tasks waiting)`);
+  }
+}
+
+/**
+ * Thrown when a variable captured by a spawned closure cannot be sent to the
+ * worker. `location` is where the closure first refers to it, as
+ * `file:line:col`.
+ */
+export class CaptureError extends Error {
+  override name = "CaptureError";
+
+  constructor(
+    readonly variable: string,
+    readonly location: string,
+    readonly reason: string,
+    options?: ErrorOptions,
+  ) {
+    super(`Captured variable '${variable}' at ${location} cannot be sent to a worker: ${reason}`, options);
+  }
+}
+
+/** Thrown when sending on a `Channel` that has been closed. */
+export class ChannelClosedError extends Error {
+  override name = "ChannelClosedError";
+
+  constructor() {
+    super("Cannot send on a closed channel");
+  }
+}
+
+/**
+ * Thrown when locking a `Mutex` whose previous owner died while holding it.
+ * The lock is acquired regardless: `guard` gives access to the data so it can
+ * be repaired before calling `mutex.clearPoison()`.
+ */
+export class PoisonError<G> extends Error {
+  override name = "PoisonError";
+
+  constructor(readonly guard: G) {
+    super("Mutex is poisoned: a thread died while holding it");
+  }
+}
+
+/**
+ * Rejects a spawned task whose closure threw. `cause` is the thrown value,
+ * rebuilt with its class when that is a built-in or library error, and the
+ * stack continues from the worker's frames into the `spawn()` call site.
+ */
+export class WorkerError extends Error {
+  override name = "WorkerError";
+
+  constructor(cause: unknown, callSite: string) {
+    const message = cause instanceof Error ? `${cause.name}: ${cause.message}` : String(cause);
+    super(message, { cause });
+    const frames = cause instanceof Error ? cause.stack?.split("\n").filter((l) => /^\s+at /.test(l)) ?? [] : [];
+    this.stack = [`${this.name}: ${message}`, ...frames, `    at spawn (${callSite})`].join("\n");
+  }
+}
+
+/** An error flattened so that it survives `postMessage`. */
+interface SerializedError {
+  __error__: true;
+  name: string;
+  message: string;
+  stack: string | undefined;
+  props: Record<string, unknown>;
+  cause?: unknown;
+  errors?: unknown[];
+}
+
+// Classes that errors are rebuilt with on the receiving side, by name
+const ERROR_CLASSES: Record<string, { prototype: Error }> = {
+  AbortError,
+  AggregateError,
+  CaptureError,
+  ChannelClosedError,
+  Error,
+  EvalError,
+  PoisonError,
+  QueueFullError,
+  RangeError,
+  ReferenceError,
+  SyntaxError,
+  TimeoutError,
+  TypeError,
+  URIError,
+  WorkerError,
+};
+
+/**
+ * @internal Flattens a thrown value for `postMessage`: errors keep their name,
+ * message, stack, cause chain, aggregated errors and clonable own properties.
+ */
+export function serializeError(value: unknown, seen = new Set<unknown>()): unknown {
+  if (!(value instanceof Error) || seen.has(value)) {
+    return isStructuredClonable(value) ? value : String(value);
+  }
+  seen.add(value);
+
+  const props: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value)) {
+    if (isStructuredClonable(v)) props[key] = v;
+  }
+  const error: SerializedError = {
+    __error__: true,
+    name: value.name,
+    message: value.message,
+    stack: value.stack,
+    props,
+  };
+  if ("cause" in value) error.cause = serializeError(value.cause, seen);
+  if (value instanceof AggregateError) error.errors = value.errors.map((e) => serializeError(e, seen));
+  return error;
+}
+
+/**
+ * @internal Rebuilds a value flattened by `serializeError()`, passing every
+ * stack in the chain through `mapStack`. Errors of unknown classes become
+ * plain `Error`s that keep their `name`.
+ */
+export function deserializeError(value: unknown, mapStack = (stack: string) => stack): unknown {
+  const serialized = value as SerializedError | null;
+  if (!serialized || typeof serialized !== "object" || serialized.__error__ !== true) return value;
+
+  const proto = (ERROR_CLASSES[serialized.name] ?? Error).prototype;
+  const error = Object.assign(Object.create(proto), serialized.props) as Error;
+  const hidden = (v: unknown) => ({ value: v, writable: true, configurable: true });
+  Object.defineProperties(error, {
+    message: hidden(serialized.message),
+    stack: hidden(serialized.stack && mapStack(serialized.stack)),
+  });
+  if (error.name !== serialized.name) Object.defineProperty(error, "name", hidden(serialized.name));
+  if ("cause" in serialized) {
+    Object.defineProperty(error, "cause", hidden(deserializeError(serialized.cause, mapStack)));
+  }
+  if (serialized.errors) {
+    Object.defineProperty(error, "errors", hidden(serialized.errors.map((e) => deserializeError(e, mapStack))));
+  }
+  return error;
+}
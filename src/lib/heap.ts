@@ -0,0 +1,254 @@
+import { growSharedBuffer, register, SharedStruct, withSpinLock } from "./primitives.ts";
+
+type HeapView =
+  | Int8Array
+  | Uint8Array
+  | Uint8ClampedArray
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | Float32Array
+  | Float64Array
+  | BigInt64Array
+  | BigUint64Array;
+
+export interface HeapViewConstructor<T extends HeapView> {
+  new (buffer: SharedArrayBuffer, byteOffset: number, length: number): T;
+  readonly BYTES_PER_ELEMENT: number;
+}
+
+declare const viewType: unique symbol;
+/**
+ * Offset of an allocation in a `SharedHeap`. A plain number at runtime, so it
+ * can be captured, sent and stored in shared memory freely; the type parameter
+ * only records what the memory holds.
+ */
+export type HeapPtr<T extends HeapView = Uint8Array> = number & { readonly [viewType]?: T };
+
+export interface SharedHeapOptions {
+  /** Initial size of the heap in bytes (default: 64 KiB). */
+  byteLength?: number;
+  /** Lets the heap grow up to this many bytes when it runs out of space. */
+  maxByteLength?: number;
+}
+
+// Header words. Blocks follow from FIRST_BLOCK up to an epilogue header in the
+// last 8 bytes. Each block starts with its size and an allocated bit, then the
+// requested byte length, and ends with a copy of the first word so `free()`
+// can merge with the block before it. Free blocks link to each other through
+// the first two words of their payload.
+const LOCK = 0;
+const FREE_HEAD = 1;
+const USED = 2;
+const COUNT = 3;
+const PROLOGUE = 5;
+const FIRST_BLOCK = 24;
+const HEADER = 8;
+const OVERHEAD = HEADER + 4;
+const MIN_BLOCK = 24;
+const MIN_HEAP = FIRST_BLOCK + MIN_BLOCK + 8;
+const ALLOCATED = 1;
+
+const align8 = (n: number) => Math.ceil(n / 8) * 8;
+
+/**
+ * A thread-safe allocator over one large `SharedArrayBuffer`. Pass the heap
+ * around once (or wrap it in `Global<T>`) and hand out pointers to the many
+ * small objects living inside it, instead of a buffer per object.
+ */
+export class SharedHeap extends SharedStruct {
+  constructor(arg: number | SharedHeapOptions | SharedArrayBuffer = {}, isHydrating = false) {
+    const isStateBuffer = isHydrating && arg instanceof SharedArrayBuffer;
+    const { byteLength = 64 * 1024, maxByteLength }: SharedHeapOptions = typeof arg === "number"
+      ? { byteLength: arg }
+      : isStateBuffer
+      ? {}
+      : arg as SharedHeapOptions;
+    const size = Math.max(align8(byteLength), MIN_HEAP);
+
+    super(
+      "SharedHeap",
+      isStateBuffer ? arg : maxByteLength === undefined ? size : { maxByteLength: Math.max(size, maxByteLength) },
+      size / 4,
+    );
+
+    if (!isStateBuffer) {
+      this.state[PROLOGUE] = ALLOCATED;
+      this._setBlock(FIRST_BLOCK, size - FIRST_BLOCK - 8, 0);
+      this.state[(size - 8) / 4] = ALLOCATED; // epilogue
+      this._pushFree(FIRST_BLOCK);
+    }
+  }
+
+  /** The heap's `SharedArrayBuffer`, for creating views of allocations. */
+  override get buffer(): SharedArrayBuffer {
+    return this.state.buffer as SharedArrayBuffer;
+  }
+
+  get byteLength(): number {
+    return this.buffer.byteLength;
+  }
+
+  /** Bytes taken by live allocations, including per-block overhead. */
+  get used(): number {
+    return Atomics.load(this.state, USED);
+  }
+
+  /** Number of live allocations. */
+  get allocations(): number {
+    return Atomics.load(this.state, COUNT);
+  }
+
+  /**
+   * Allocates `byteLength` bytes and returns a pointer to them, aligned to 8
+   * bytes. The memory is not cleared. Throws a `RangeError` when the heap is
+   * full and cannot grow.
+   */
+  alloc(byteLength: number): HeapPtr {
+    if (!Number.isInteger(byteLength) || byteLength < 0) {
+      throw new RangeError(`Invalid allocation size ${byteLength}`);
+    }
+    const need = Math.max(MIN_BLOCK, align8(byteLength + OVERHEAD));
+
+    return withSpinLock(this.state, LOCK, () => {
+      const block = this._findFree(need) ?? this._growFor(need);
+      this._removeFree(block);
+
+      let size = this._size(block);
+      if (size - need >= MIN_BLOCK) {
+        this._setBlock(block + need, size - need, 0);
+        this._pushFree(block + need);
+        size = need;
+      }
+      this._setBlock(block, size, ALLOCATED);
+      this.state[(block + 4) / 4] = byteLength;
+      Atomics.add(this.state, USED, size);
+      Atomics.add(this.state, COUNT, 1);
+      return block + HEADER;
+    });
+  }
+
+  /** Allocates room for `length` elements of a typed array. */
+  allocArray<T extends HeapView>(Ctor: HeapViewConstructor<T>, length: number): HeapPtr<T> {
+    return this.alloc(length * Ctor.BYTES_PER_ELEMENT) as HeapPtr<T>;
+  }
+
+  /** Returns memory to the heap. Throws on pointers that are not live allocations. */
+  free(ptr: HeapPtr<HeapView>) {
+    withSpinLock(this.state, LOCK, () => {
+      let block = this._blockOf(ptr);
+      let size = this._size(block);
+      Atomics.sub(this.state, USED, size);
+      Atomics.sub(this.state, COUNT, 1);
+
+      // Merge with free neighbours so large allocations stay possible
+      const next = this.state[(block + size) / 4]!;
+      if (!(next & ALLOCATED)) {
+        this._removeFree(block + size);
+        size += next;
+      }
+      const prev = this.state[block / 4 - 1]!;
+      if (!(prev & ALLOCATED)) {
+        block -= prev;
+        this._removeFree(block);
+        size += prev;
+      }
+      this._setBlock(block, size, 0);
+      this._pushFree(block);
+    });
+  }
+
+  /** The byte length requested when `ptr` was allocated. */
+  sizeOf(ptr: HeapPtr<HeapView>): number {
+    return withSpinLock(this.state, LOCK, () => this.state[(this._blockOf(ptr) + 4) / 4]!);
+  }
+
+  /** A typed array over the allocation at `ptr`, in any thread sharing the heap. */
+  view(ptr: HeapPtr): Uint8Array;
+  view<T extends HeapView>(ptr: HeapPtr<T>, Ctor: HeapViewConstructor<T>): T;
+  view(ptr: HeapPtr<HeapView>, Ctor: HeapViewConstructor<HeapView> = Uint8Array): HeapView {
+    return new Ctor(this.buffer, ptr, Math.floor(this.sizeOf(ptr) / Ctor.BYTES_PER_ELEMENT));
+  }
+
+  private _blockOf(ptr: number) {
+    const block = ptr - HEADER;
+    const header = Number.isInteger(ptr) && ptr % 8 === 0 && block >= FIRST_BLOCK &&
+        block < this.buffer.byteLength - 8
+      ? this.state[block / 4]!
+      : 0;
+    if (
+      !(header & ALLOCATED) || header === ALLOCATED ||
+      this.state[(block + (header & ~ALLOCATED)) / 4 - 1] !== header
+    ) {
+      throw new TypeError(`${ptr} is not a live SharedHeap allocation`);
+    }
+    return block;
+  }
+
+  private _size(block: number) {
+    return this.state[block / 4]! & ~ALLOCATED;
+  }
+
+  private _setBlock(block: number, size: number, allocated: number) {
+    this.state[block / 4] = size | allocated;
+    this.state[(block + size) / 4 - 1] = size | allocated;
+  }
+
+  /** First free block of at least `size` bytes. */
+  private _findFree(size: number): number | undefined {
+    for (let block = this.state[FREE_HEAD]!; block; block = this.state[(block + HEADER) / 4]!) {
+      if (this._size(block) >= size) return block;
+    }
+    return undefined;
+  }
+
+  private _pushFree(block: number) {
+    const head = this.state[FREE_HEAD]!;
+    this.state[(block + HEADER) / 4] = head;
+    this.state[(block + HEADER + 4) / 4] = 0;
+    if (head) this.state[(head + HEADER + 4) / 4] = block;
+    this.state[FREE_HEAD] = block;
+  }
+
+  private _removeFree(block: number) {
+    const next = this.state[(block + HEADER) / 4]!;
+    const prev = this.state[(block + HEADER + 4) / 4]!;
+    if (prev) this.state[(prev + HEADER) / 4] = next;
+    else this.state[FREE_HEAD] = next;
+    if (next) this.state[(next + HEADER + 4) / 4] = prev;
+  }
+
+  /** Grows a growable heap so that its last free block holds `size` bytes. */
+  private _growFor(size: number): number {
+    const { buffer } = this;
+    const epilogue = buffer.byteLength - 8;
+    const lastFooter = this.state[epilogue / 4 - 1]!;
+    const tail = lastFooter & ALLOCATED ? 0 : lastFooter;
+    const needed = epilogue + size - tail + 8;
+    if (!buffer.growable || needed > buffer.maxByteLength) {
+      throw new RangeError(`SharedHeap is out of memory: cannot allocate ${size} bytes`);
+    }
+
+    const byteLength = growSharedBuffer(
+      buffer,
+      Math.min(align8(Math.max(buffer.byteLength * 2, needed)), buffer.maxByteLength),
+    );
+    // The old epilogue becomes the start of the new space
+    let block = epilogue;
+    let blockSize = byteLength - 8 - epilogue;
+    if (tail) {
+      block -= tail;
+      blockSize += tail;
+      this._removeFree(block);
+    }
+    this._setBlock(block, blockSize, 0);
+    this.state[(byteLength - 8) / 4] = ALLOCATED;
+    this._pushFree(block);
+    return block;
+  }
+
+  static {
+    register("SharedHeap", this);
+  }
+}
@@ -0,0 +1,207 @@
+import {
+  assertCanBlock,
+  currentThreadId,
+  decodeText,
+  encodeJson,
+  growSharedBuffer,
+  type LockOptions,
+  onThreadExit,
+  register,
+  SharedStruct,
+  waitBounded,
+  waitBoundedSync,
+} from "./primitives.ts";
+import { deepFreeze, type DeepReadonly } from "./value.ts";
+
+export interface OnceCellOptions {
+  /** Size in bytes the encoded value may take (default: 16 MiB). */
+  maxByteLength?: number;
+}
+
+// Word 0 moves from INCOMPLETE to RUNNING to COMPLETE, falling back to
+// INCOMPLETE when the initializer throws or its thread exits so that another
+// caller can retry. Word 1 holds the id of the thread running it.
+const STATE = 0;
+const RUNNER = 1;
+const INCOMPLETE = 0;
+const RUNNING = 1;
+const COMPLETE = 2;
+
+const DEFAULT_MAX_BYTE_LENGTH = 16 * 1024 * 1024;
+
+// Decoded values per data buffer. A cell is written only once, so the first
+// decode in an isolate is the only one.
+const DECODED = new WeakMap<SharedArrayBuffer, unknown>();
+
+abstract class OnceState extends SharedStruct {
+  constructor(name: string, bufferOrSize: SharedArrayBuffer | number, minSizeInt32: number) {
+    super(name, bufferOrSize, minSizeInt32);
+    onThreadExit(this);
+  }
+
+  /** Whether an initializer has completed. */
+  get completed(): boolean {
+    return Atomics.load(this.state, STATE) === COMPLETE;
+  }
+
+  /** Runs `init` if no thread has completed it, otherwise waits for the thread that is running it. */
+  protected async _run(init: () => unknown, options: LockOptions): Promise<void> {
+    const start = performance.now();
+    while (true) {
+      const state = Atomics.compareExchange(this.state, STATE, INCOMPLETE, RUNNING);
+      if (state === COMPLETE) return;
+      if (state === RUNNING) {
+        await waitBounded(this.state, STATE, RUNNING, options, start);
+        continue;
+      }
+
+      Atomics.store(this.state, RUNNER, currentThreadId());
+      try {
+        await init();
+      } catch (err) {
+        this._finish(INCOMPLETE);
+        throw err;
+      }
+      this._finish(COMPLETE);
+      return;
+    }
+  }
+
+  /** Blocking variant of `_run()`. */
+  protected _runSync(init: () => unknown, timeout: number | undefined): void {
+    const start = performance.now();
+    while (true) {
+      const state = Atomics.compareExchange(this.state, STATE, INCOMPLETE, RUNNING);
+      if (state === COMPLETE) return;
+      if (state === RUNNING) {
+        if (Atomics.load(this.state, RUNNER) === currentThreadId()) {
+          throw new Error("Once initializer is already running on this thread; waiting would deadlock");
+        }
+        assertCanBlock();
+        waitBoundedSync(this.state, STATE, RUNNING, timeout, start);
+        continue;
+      }
+
+      Atomics.store(this.state, RUNNER, currentThreadId());
+      try {
+        const result = init();
+        if (result instanceof Promise) {
+          result.catch(() => {});
+          throw new TypeError("Synchronous Once initializers cannot return a promise");
+        }
+      } catch (err) {
+        this._finish(INCOMPLETE);
+        throw err;
+      }
+      this._finish(COMPLETE);
+      return;
+    }
+  }
+
+  private _finish(state: number) {
+    Atomics.store(this.state, RUNNER, 0);
+    Atomics.store(this.state, STATE, state);
+    Atomics.notify(this.state, STATE);
+  }
+
+  /** @internal Lets a waiting thread take over from a worker that died mid-initializer. */
+  _onThreadExit(threadId: number) {
+    if (
+      Atomics.load(this.state, STATE) === RUNNING &&
+      Atomics.compareExchange(this.state, RUNNER, threadId, 0) === threadId
+    ) {
+      this._finish(INCOMPLETE);
+    }
+  }
+}
+
+/**
+ * Runs an initializer exactly once across the main thread and all workers,
+ * nested ones included. Threads that call it while the initializer runs wait
+ * for it to finish. If the initializer throws, the error goes to its caller
+ * and the next caller runs it again.
+ *
+ * Top-level module code runs again in every worker, so wrap a module-level
+ * `Once` in `Global<T>` to share it.
+ */
+export class Once extends OnceState {
+  constructor(buffer?: SharedArrayBuffer, isHydrating = false) {
+    super("Once", isHydrating && buffer ? buffer : 8, 2);
+  }
+
+  /** Runs `init` unless some thread already has, and resolves once it has completed. */
+  call(init: () => void | Promise<void>, options: LockOptions = {}): Promise<void> {
+    return this._run(init, options);
+  }
+
+  /** Blocking variant of `call()`. `init` must be synchronous. */
+  callSync(init: () => void, { timeout }: Pick<LockOptions, "timeout"> = {}): void {
+    this._runSync(init, timeout);
+  }
+
+  static {
+    register("Once", this);
+  }
+}
+
+/**
+ * A JSON-serializable value computed by the first thread that asks for it and
+ * read by every other one, with the guarantees of `Once`. The value is frozen
+ * and decoded once per isolate.
+ */
+export class OnceCell<T> extends OnceState {
+  private static readonly LENGTH = 2;
+
+  private _data: SharedArrayBuffer;
+
+  constructor(arg: OnceCellOptions | SharedArrayBuffer = {}, isHydrating = false) {
+    const isStateBuffer = isHydrating && arg instanceof SharedArrayBuffer;
+    super("OnceCell", isStateBuffer ? arg : 12, 3);
+    if (isStateBuffer) {
+      this._data = undefined as unknown as SharedArrayBuffer;
+      return;
+    }
+    const { maxByteLength = DEFAULT_MAX_BYTE_LENGTH } = arg as OnceCellOptions;
+    this._data = new SharedArrayBuffer(0, { maxByteLength });
+  }
+
+  /** The value, or `undefined` while no initializer has completed. */
+  get(): DeepReadonly<T> | undefined {
+    if (!this.completed) return undefined;
+    if (DECODED.has(this._data)) return DECODED.get(this._data) as DeepReadonly<T>;
+
+    const length = Atomics.load(this.state, OnceCell.LENGTH);
+    const value = deepFreeze(JSON.parse(decodeText(this._data, 0, length)));
+    DECODED.set(this._data, value);
+    return value;
+  }
+
+  /** Returns the value, computing it with `init` if no thread has yet. */
+  async getOrInit(init: () => T | Promise<T>, options: LockOptions = {}): Promise<DeepReadonly<T>> {
+    await this._run(async () => this._write(await init()), options);
+    return this.get()!;
+  }
+
+  /** Blocking variant of `getOrInit()`. `init` must be synchronous. */
+  getOrInitSync(init: () => T, { timeout }: Pick<LockOptions, "timeout"> = {}): DeepReadonly<T> {
+    this._runSync(() => {
+      const value = init();
+      if (value instanceof Promise) return value;
+      this._write(value);
+      return undefined;
+    }, timeout);
+    return this.get()!;
+  }
+
+  private _write(value: T) {
+    const bytes = encodeJson(value, "OnceCell", this._data.maxByteLength);
+    growSharedBuffer(this._data, bytes.byteLength);
+    new Uint8Array(this._data, 0, bytes.byteLength).set(bytes);
+    // Published to readers by the store of COMPLETE that follows
+    Atomics.store(this.state, OnceCell.LENGTH, bytes.byteLength);
+  }
+
+  static {
+    register("OnceCell", this);
+  }
+}
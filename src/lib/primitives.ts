@@ -1,3 +1,4 @@
+import { AbortError, ChannelClosedError, PoisonError, TimeoutError } from "./errors.ts";
 import { getCallSite } from "./utils.ts";
 
 export interface SharedArrayBufferOptions {
@@ -16,11 +17,178 @@ export function hydrateGlobalMemory(map: Record<string, SharedArrayBuffer>) {
   }
 }
 
+// Thread ids identify lock owners across isolates. The main thread is 1 and
+// every thread hands out ids to the workers it creates from a shared counter.
+const THREAD_COUNTER_KEY = "__thread_counter__";
+const UNKNOWN_THREAD = -1;
+let THREAD_ID = IS_MAIN_THREAD ? 1 : UNKNOWN_THREAD;
+
+// The parent of every thread by id, so that the workers that die along with
+// an exiting thread are cleaned up after too. Exited threads are marked.
+const THREAD_PARENTS_KEY = "__thread_parents__";
+const MAX_TRACKED_THREADS = 1 << 20;
+const EXITED_THREAD = -2;
+
+if (IS_MAIN_THREAD) {
+  const counter = new SharedArrayBuffer(4);
+  new Int32Array(counter)[0] = THREAD_ID;
+  GLOBAL_MEMORY.set(THREAD_COUNTER_KEY, counter);
+  GLOBAL_MEMORY.set(THREAD_PARENTS_KEY, new SharedArrayBuffer(1024 * 4, { maxByteLength: MAX_TRACKED_THREADS * 4 }));
+}
+
+/** @internal Allocates the id of a worker about to be created by this thread. */
+export function nextThreadId(): number {
+  const counter = GLOBAL_MEMORY.get(THREAD_COUNTER_KEY);
+  if (!counter) return UNKNOWN_THREAD;
+  const id = Atomics.add(new Int32Array(counter), 0, 1) + 1;
+  const parents = GLOBAL_MEMORY.get(THREAD_PARENTS_KEY);
+  if (parents && id < MAX_TRACKED_THREADS) {
+    if (parents.byteLength <= id * 4) {
+      growSharedBuffer(parents, Math.min(Math.max((id + 1) * 4, parents.byteLength * 2), parents.maxByteLength));
+    }
+    Atomics.store(new Int32Array(parents), id, THREAD_ID);
+  }
+  return id;
+}
+
+/** @internal Adopts the id assigned by the parent thread. */
+export function setThreadId(id: number) {
+  THREAD_ID = id;
+}
+
+/** @internal Id of the current thread, as recorded in lock words. */
+export function currentThreadId(): number {
+  return THREAD_ID;
+}
+
+/** @internal */
+export interface ThreadExitHandler {
+  _onThreadExit(threadId: number): void;
+}
+
+// Structs in this isolate that must clean up after threads that have exited
+const EXIT_HANDLERS = new Set<WeakRef<ThreadExitHandler>>();
+const EXIT_FINALIZER = new FinalizationRegistry<WeakRef<ThreadExitHandler>>(
+  (ref) => EXIT_HANDLERS.delete(ref),
+);
+
+/** @internal Calls `handler._onThreadExit()` whenever the pool retires a worker. */
+export function onThreadExit(handler: ThreadExitHandler) {
+  const ref = new WeakRef(handler);
+  EXIT_HANDLERS.add(ref);
+  EXIT_FINALIZER.register(handler, ref);
+}
+
+/**
+ * @internal Called by the pool once a worker is gone: poisons the mutexes it
+ * and the nested workers that died with it held, and drops their places in
+ * fair queues.
+ */
+export function handleThreadExit(threadId: number) {
+  const exited = exitedThreads(threadId);
+  for (const ref of EXIT_HANDLERS) {
+    const handler = ref.deref();
+    if (!handler) EXIT_HANDLERS.delete(ref);
+    else for (const id of exited) handler._onThreadExit(id);
+  }
+}
+
+/** Marks `threadId` and its descendants that were still running as exited, and returns them. */
+function exitedThreads(threadId: number): number[] {
+  const exited = [threadId];
+  const buffer = GLOBAL_MEMORY.get(THREAD_PARENTS_KEY);
+  const counter = GLOBAL_MEMORY.get(THREAD_COUNTER_KEY);
+  if (!buffer || !counter) return exited;
+
+  const parents = new Int32Array(buffer);
+  // A thread gets its id after its parent's, so one pass finds every descendant
+  const last = Math.min(Atomics.load(new Int32Array(counter), 0), parents.length - 1);
+  for (let id = threadId + 1; id <= last; id++) {
+    if (exited.includes(Atomics.load(parents, id))) exited.push(id);
+  }
+  for (const id of exited) {
+    if (id < parents.length) Atomics.store(parents, id, EXITED_THREAD);
+  }
+  return exited;
+}
+
+/**
+ * Grows a growable `SharedArrayBuffer` to at least `byteLength` bytes and
+ * returns its new length. Safe to call from several threads at once: the
+ * buffer never shrinks, and losing a race to a larger grow is not an error.
+ * Views created without an explicit length follow the growth in every thread.
+ */
+export function growSharedBuffer(buffer: SharedArrayBuffer, byteLength: number): number {
+  if (!buffer.growable) {
+    throw new TypeError("SharedArrayBuffer is not growable: create it with a maxByteLength");
+  }
+  if (byteLength > buffer.maxByteLength) {
+    throw new RangeError(
+      `Cannot grow SharedArrayBuffer to ${byteLength} bytes beyond its maxByteLength of ${buffer.maxByteLength}`,
+    );
+  }
+  while (buffer.byteLength < byteLength) {
+    try {
+      buffer.grow(byteLength);
+    } catch (err) {
+      // Another thread grew it past `byteLength` between the check and grow()
+      if (buffer.byteLength < byteLength) throw err;
+    }
+  }
+  return buffer.byteLength;
+}
+
+/**
+ * @internal Runs `fn` holding the spin lock at `state[index]`. Only for
+ * critical sections that copy a bounded number of bytes and never wait:
+ * spinning is cheaper than parking there, and keeps the callers synchronous
+ * in every thread, the main one included.
+ */
+export function withSpinLock<R>(state: Int32Array, index: number, fn: () => R): R {
+  while (Atomics.compareExchange(state, index, 0, 1) !== 0) {
+    // spin
+  }
+  try {
+    return fn();
+  } finally {
+    Atomics.store(state, index, 0);
+  }
+}
+
+/**
+ * @internal Encodes a value to be stored in shared memory as JSON. `owner`
+ * names the structure in errors, and `limit` the option that caps its size.
+ */
+export function encodeJson(value: unknown, owner: string, maxByteLength: number, limit = "maxByteLength"): Uint8Array {
+  const json = JSON.stringify(value);
+  if (json === undefined) throw new TypeError(`${owner} values must be JSON-serializable`);
+  const bytes = new TextEncoder().encode(json);
+  if (bytes.byteLength > maxByteLength) {
+    throw new RangeError(
+      `Encoded value of ${bytes.byteLength} bytes exceeds the ${owner}'s ${limit} of ${maxByteLength}`,
+    );
+  }
+  return bytes;
+}
+
+/**
+ * @internal Decodes text stored in shared memory. TextDecoder rejects views of
+ * a `SharedArrayBuffer`, so the bytes are copied out first.
+ */
+export function decodeText(buffer: SharedArrayBuffer, byteOffset: number, byteLength: number): string {
+  return new TextDecoder().decode(new Uint8Array(buffer, byteOffset, byteLength).slice());
+}
+
 export function getCallSiteId() {
-  const site = getCallSite(import.meta.url);
+  const site = getCallSite(2);
   return `${site.url}:${site.line}:${site.col}`;
 }
 
+/**
+ * `hydrate()` rebuilds registered classes as `new Cls(stateBuffer, true)`:
+ * constructors take a `true` second argument as the hydration flag, and own
+ * fields such as data buffers are then assigned from the parent's copy.
+ */
 type Constructor<T> = new (buffer: SharedArrayBuffer, isHydrating?: boolean) => T;
 const REGISTRY = new Map<string, Constructor<SharedStruct>>();
 
@@ -150,28 +318,324 @@ export class Global<T extends SharedStruct | SharedArrayBuffer> {
   }
 }
 
+export interface LockOptions {
+  /** Gives up with a `TimeoutError` after this many milliseconds. */
+  timeout?: number;
+  /** Gives up with an `AbortError` when aborted. */
+  signal?: AbortSignal;
+}
+
+/**
+ * @internal `Atomics.waitAsync` bounded by the deadline and signal of
+ * `options`, throwing once either has fired. `start` is when the caller began
+ * waiting.
+ */
+export async function waitBounded(
+  state: Int32Array,
+  index: number,
+  value: number,
+  { timeout, signal }: LockOptions,
+  start: number,
+) {
+  if (signal?.aborted) throw new AbortError(signal.reason);
+
+  let remaining: number | undefined;
+  if (timeout !== undefined) {
+    remaining = start + timeout - performance.now();
+    if (remaining <= 0) throw new TimeoutError(timeout);
+  }
+
+  const res = Atomics.waitAsync(state, index, value, remaining);
+  if (!res.async) return;
+
+  // A pending waitAsync cannot be cancelled, so wake it instead. Other
+  // waiters on the same word see a spurious wakeup and simply retry.
+  const onAbort = () => Atomics.notify(state, index);
+  signal?.addEventListener("abort", onAbort, { once: true });
+  try {
+    await res.value;
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+let MAIN_THREAD_BLOCKING = false;
+let CAN_BLOCK: boolean | undefined;
+
+/** @internal Opt-in for blocking waits on the main thread, set through `configure()`. */
+export function setMainThreadBlocking(allowed: boolean) {
+  MAIN_THREAD_BLOCKING = allowed;
+}
+
+/** @internal Throws unless this thread may suspend in `Atomics.wait`. */
+export function assertCanBlock() {
+  if (IS_MAIN_THREAD && !MAIN_THREAD_BLOCKING) {
+    throw new Error(
+      "Blocking waits are disabled on the main thread. Use the async variant, " +
+        "or opt in with configure({ allowMainThreadBlocking: true }).",
+    );
+  }
+  // AgentCanSuspend() is checked before the value comparison, so a mismatched
+  // wait with a zero timeout probes the runtime without ever suspending.
+  CAN_BLOCK ??= (() => {
+    try {
+      Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 1, 0);
+      return true;
+    } catch {
+      return false;
+    }
+  })();
+  if (!CAN_BLOCK) {
+    throw new Error("This thread is not allowed to block in Atomics.wait. Use the async variant.");
+  }
+}
+
+/** @internal Blocking counterpart of `waitBounded()`. */
+export function waitBoundedSync(
+  state: Int32Array,
+  index: number,
+  value: number,
+  timeout: number | undefined,
+  start: number,
+) {
+  let remaining: number | undefined;
+  if (timeout !== undefined) {
+    remaining = start + timeout - performance.now();
+    if (remaining <= 0) throw new TimeoutError(timeout);
+  }
+  Atomics.wait(state, index, value, remaining);
+}
+
+export interface FairnessOptions {
+  /** Serve waiters strictly in arrival order. */
+  fair?: boolean;
+}
+
+// Fair mode hands out tickets and serves them in order. The queue occupies
+// TICKET_INTS words from `base`: the next ticket, the ticket being served, and
+// a ring recording who holds each queued ticket, so tickets given up through
+// a timeout, an abort or a dead thread can be skipped instead of stalling
+// everyone behind them.
+const TICKET_NEXT = 0;
+const TICKET_SERVING = 1;
+const TICKET_RING = 2;
+const TICKET_SLOTS = 32;
+const TICKET_INTS = TICKET_RING + TICKET_SLOTS;
+const SLOT_EMPTY = 0;
+const SLOT_ABANDONED = -2;
+
+const ticketSlot = (base: number, ticket: number) =>
+  base + TICKET_RING + (ticket & (TICKET_SLOTS - 1));
+
+/** Whether `ticket` may write its ring slot, i.e. the ticket a lap ahead is done. */
+const ticketHasSlot = (state: Int32Array, base: number, ticket: number) =>
+  ((ticket - Atomics.load(state, base + TICKET_SERVING)) | 0) < TICKET_SLOTS;
+
+/** Takes a ticket and waits until it is served. */
+async function ticketWait(
+  state: Int32Array,
+  base: number,
+  owner: number,
+  options: LockOptions,
+  start: number,
+) {
+  const servingIdx = base + TICKET_SERVING;
+  const ticket = Atomics.add(state, base + TICKET_NEXT, 1);
+  let claimed = false;
+  try {
+    let serving: number;
+    while (!ticketHasSlot(state, base, ticket)) {
+      serving = Atomics.load(state, servingIdx);
+      await waitBounded(state, servingIdx, serving, options, start);
+    }
+    Atomics.store(state, ticketSlot(base, ticket), owner);
+    claimed = true;
+    while ((serving = Atomics.load(state, servingIdx)) !== ticket) {
+      await waitBounded(state, servingIdx, serving, options, start);
+    }
+  } catch (err) {
+    ticketAbandon(state, base, ticket, claimed);
+    throw err;
+  }
+}
+
+/** Blocking variant of `ticketWait()`. */
+function ticketWaitSync(
+  state: Int32Array,
+  base: number,
+  owner: number,
+  timeout: number | undefined,
+  start: number,
+) {
+  const servingIdx = base + TICKET_SERVING;
+  const ticket = Atomics.add(state, base + TICKET_NEXT, 1);
+  let claimed = false;
+  try {
+    let serving: number;
+    while (!ticketHasSlot(state, base, ticket)) {
+      serving = Atomics.load(state, servingIdx);
+      waitBoundedSync(state, servingIdx, serving, timeout, start);
+    }
+    Atomics.store(state, ticketSlot(base, ticket), owner);
+    claimed = true;
+    while ((serving = Atomics.load(state, servingIdx)) !== ticket) {
+      waitBoundedSync(state, servingIdx, serving, timeout, start);
+    }
+  } catch (err) {
+    ticketAbandon(state, base, ticket, claimed);
+    throw err;
+  }
+}
+
+/** Takes a ticket only if it would be served immediately. */
+function ticketTryTake(state: Int32Array, base: number, owner: number): boolean {
+  const serving = Atomics.load(state, base + TICKET_SERVING);
+  if (Atomics.compareExchange(state, base + TICKET_NEXT, serving, (serving + 1) | 0) !== serving) {
+    return false;
+  }
+  Atomics.store(state, ticketSlot(base, serving), owner);
+  return true;
+}
+
+/** Finishes the ticket being served and moves on to the next live one. */
+function ticketRelease(state: Int32Array, base: number) {
+  const servingIdx = base + TICKET_SERVING;
+  Atomics.store(state, ticketSlot(base, Atomics.load(state, servingIdx)), SLOT_EMPTY);
+  let serving = (Atomics.add(state, servingIdx, 1) + 1) | 0;
+  while (
+    serving !== Atomics.load(state, base + TICKET_NEXT) &&
+    Atomics.compareExchange(state, ticketSlot(base, serving), SLOT_ABANDONED, SLOT_EMPTY) === SLOT_ABANDONED
+  ) {
+    serving = (Atomics.add(state, servingIdx, 1) + 1) | 0;
+  }
+  Atomics.notify(state, servingIdx);
+}
+
+/**
+ * Marks a ticket as given up. Whoever observes an abandoned ticket at the head
+ * of the queue (this call or `ticketRelease()`) claims it via CAS and moves on.
+ */
+function ticketAbandon(state: Int32Array, base: number, ticket: number, claimed: boolean) {
+  const slot = ticketSlot(base, ticket);
+  const mark = () => {
+    Atomics.store(state, slot, SLOT_ABANDONED);
+    if (
+      Atomics.load(state, base + TICKET_SERVING) === ticket &&
+      Atomics.compareExchange(state, slot, SLOT_ABANDONED, SLOT_EMPTY) === SLOT_ABANDONED
+    ) {
+      ticketRelease(state, base);
+    }
+  };
+  if (claimed || ticketHasSlot(state, base, ticket)) return mark();
+
+  // The slot is still used by the ticket a lap ahead: mark it once freed
+  (async () => {
+    const servingIdx = base + TICKET_SERVING;
+    while (!ticketHasSlot(state, base, ticket)) {
+      const res = Atomics.waitAsync(state, servingIdx, Atomics.load(state, servingIdx));
+      if (res.async) await res.value;
+    }
+    mark();
+  })();
+}
+
+/** Abandons every queued ticket held by a thread that has exited. */
+function ticketAbandonThread(state: Int32Array, base: number, threadId: number) {
+  const serving = Atomics.load(state, base + TICKET_SERVING);
+  const queued = Math.min((Atomics.load(state, base + TICKET_NEXT) - serving) | 0, TICKET_SLOTS);
+  for (let i = 0; i < queued; i++) {
+    const ticket = (serving + i) | 0;
+    const slot = ticketSlot(base, ticket);
+    if (Atomics.compareExchange(state, slot, threadId, SLOT_ABANDONED) !== threadId) continue;
+    if (
+      Atomics.load(state, base + TICKET_SERVING) === ticket &&
+      Atomics.compareExchange(state, slot, SLOT_ABANDONED, SLOT_EMPTY) === SLOT_ABANDONED
+    ) {
+      ticketRelease(state, base);
+    }
+  }
+}
+
 export class Semaphore extends SharedStruct {
   private static readonly IDX = 0;
+  private static readonly FAIR = 1;
+  private static readonly QUEUE = 2;
 
-  constructor(arg: number | SharedArrayBuffer = 0, isHydrating = false) {
+  constructor(
+    arg: number | SharedArrayBuffer = 0,
+    options: FairnessOptions | boolean = false,
+  ) {
+    const isHydrating = options === true;
+    const fair = typeof options === "object" && options.fair === true;
     const isStateBuffer = isHydrating && arg instanceof SharedArrayBuffer;
-    super("Semaphore", isStateBuffer ? arg : 4, 1);
+    const sizeInt32 = Semaphore.QUEUE + (fair ? TICKET_INTS : 0);
+    super("Semaphore", isStateBuffer ? arg : sizeInt32 * 4, sizeInt32);
     if (!isStateBuffer && typeof arg === "number") {
       this.state[Semaphore.IDX] = arg;
     }
+    if (fair) this.state[Semaphore.FAIR] = 1;
+    if (this.fair) onThreadExit(this);
   }
 
-  async acquire(amount = 1) {
-    while (true) {
-      const current = Atomics.load(this.state, Semaphore.IDX);
-      if (current >= amount) {
-        if (Atomics.compareExchange(this.state, Semaphore.IDX, current, current - amount) === current) {
-          return { [Symbol.dispose]: () => this.release(amount) };
-        }
-      } else {
-        const res = Atomics.waitAsync(this.state, Semaphore.IDX, current);
-        if (res.async) await res.value;
-      }
+  get fair(): boolean {
+    return this.state[Semaphore.FAIR] === 1;
+  }
+
+  acquire(amount?: number, options?: LockOptions): Promise<Disposable>;
+  acquire(options: LockOptions): Promise<Disposable>;
+  async acquire(
+    amountOrOptions: number | LockOptions = 1,
+    options: LockOptions = {},
+  ): Promise<Disposable> {
+    const [amount, opts] = typeof amountOrOptions === "number"
+      ? [amountOrOptions, options]
+      : [1, amountOrOptions];
+    const start = performance.now();
+
+    if (!this.fair) {
+      await this._takePermits(amount, opts, start);
+      return this._permit(amount);
+    }
+
+    // Only the head of the queue competes for permits
+    await ticketWait(this.state, Semaphore.QUEUE, THREAD_ID, opts, start);
+    try {
+      await this._takePermits(amount, opts, start);
+    } finally {
+      ticketRelease(this.state, Semaphore.QUEUE);
+    }
+    return this._permit(amount);
+  }
+
+  /** Blocking variant of `acquire()`. */
+  acquireSync(amount = 1, { timeout }: Pick<LockOptions, "timeout"> = {}): Disposable {
+    assertCanBlock();
+    const start = performance.now();
+
+    if (!this.fair) {
+      this._takePermitsSync(amount, timeout, start);
+      return this._permit(amount);
+    }
+
+    ticketWaitSync(this.state, Semaphore.QUEUE, THREAD_ID, timeout, start);
+    try {
+      this._takePermitsSync(amount, timeout, start);
+    } finally {
+      ticketRelease(this.state, Semaphore.QUEUE);
+    }
+    return this._permit(amount);
+  }
+
+  /** Takes `amount` permits if they are available right now, otherwise returns `null`. */
+  tryAcquire(amount = 1): Disposable | null {
+    if (!this.fair) return this._tryTakePermits(amount) ? this._permit(amount) : null;
+
+    // Never overtake a queued waiter
+    if (!ticketTryTake(this.state, Semaphore.QUEUE, THREAD_ID)) return null;
+    try {
+      return this._tryTakePermits(amount) ? this._permit(amount) : null;
+    } finally {
+      ticketRelease(this.state, Semaphore.QUEUE);
     }
   }
 
@@ -180,6 +644,39 @@ export class Semaphore extends SharedStruct {
     Atomics.notify(this.state, Semaphore.IDX, Infinity);
   }
 
+  private _permit(amount: number): Disposable {
+    return { [Symbol.dispose]: () => this.release(amount) };
+  }
+
+  private _tryTakePermits(amount: number) {
+    while (true) {
+      const current = Atomics.load(this.state, Semaphore.IDX);
+      if (current < amount) return false;
+      if (Atomics.compareExchange(this.state, Semaphore.IDX, current, current - amount) === current) {
+        return true;
+      }
+    }
+  }
+
+  private async _takePermits(amount: number, options: LockOptions, start: number) {
+    while (!this._tryTakePermits(amount)) {
+      const current = Atomics.load(this.state, Semaphore.IDX);
+      if (current < amount) await waitBounded(this.state, Semaphore.IDX, current, options, start);
+    }
+  }
+
+  private _takePermitsSync(amount: number, timeout: number | undefined, start: number) {
+    while (!this._tryTakePermits(amount)) {
+      const current = Atomics.load(this.state, Semaphore.IDX);
+      if (current < amount) waitBoundedSync(this.state, Semaphore.IDX, current, timeout, start);
+    }
+  }
+
+  /** @internal */
+  _onThreadExit(threadId: number) {
+    ticketAbandonThread(this.state, Semaphore.QUEUE, threadId);
+  }
+
   static {
     register("Semaphore", Semaphore);
   }
@@ -191,58 +688,996 @@ export class MutexGuard<T> {
   constructor(
     private readonly _value: T,
     private readonly _unlockFn: () => void,
+    private readonly _lockFns?: { lock(): Promise<void>; lockSync(): void },
   ) {}
 
   get value(): T {
     return this._value;
   }
 
+  /**
+   * Grows the guarded `SharedArrayBuffer` to at least `byteLength` bytes. The
+   * lock keeps other holders from observing the buffer mid-update; the new
+   * length is visible to every thread sharing it.
+   */
+  grow(this: MutexGuard<SharedArrayBuffer>, byteLength: number): number {
+    if (this._released) throw new Error("Cannot grow through a released guard");
+    return growSharedBuffer(this._value, byteLength);
+  }
+
   unlock() {
     if (this._released) return;
     this._released = true;
     this._unlockFn();
   }
 
+  /** @internal Re-acquires a released guard's lock, used by `Condvar`. */
+  async _relock() {
+    if (!this._lockFns) throw new TypeError("This guard cannot be re-locked");
+    await this._lockFns.lock();
+    this._released = false;
+  }
+
+  /** @internal Blocking variant of `_relock()`. */
+  _relockSync() {
+    if (!this._lockFns) throw new TypeError("This guard cannot be re-locked");
+    this._lockFns.lockSync();
+    this._released = false;
+  }
+
   [Symbol.dispose]() {
     this.unlock();
   }
 }
 
+/**
+ * An async mutual exclusion lock.
+ *
+ * The lock word holds the id of the owning thread. When the pool retires a
+ * worker that still owns a lock, the lock is released and marked poisoned:
+ * subsequent `lock()` calls acquire it but throw a `PoisonError` carrying the
+ * guard until `clearPoison()` is called.
+ */
 export class Mutex<
   T extends SharedArrayBuffer | SharedStruct = SharedArrayBuffer,
 > extends SharedStruct {
   private static readonly IDX = 0;
+  private static readonly POISONED = 1;
+  private static readonly FAIR = 2;
+  private static readonly QUEUE = 3;
   private static readonly UNLOCKED = 0;
-  private static readonly LOCKED = 1;
 
   private _data: T;
 
-  constructor(arg?: T | SharedArrayBuffer, isHydrating = false) {
+  constructor(
+    arg?: T | SharedArrayBuffer,
+    options: FairnessOptions | boolean = false,
+  ) {
+    const isHydrating = options === true;
+    const fair = typeof options === "object" && options.fair === true;
     const isStateBuffer = isHydrating && arg instanceof SharedArrayBuffer;
-    super("Mutex", isStateBuffer ? arg : 4, 1);
+    const sizeInt32 = Mutex.QUEUE + (fair ? TICKET_INTS : 0);
+    super("Mutex", isStateBuffer ? arg : sizeInt32 * 4, sizeInt32);
     this._data = isStateBuffer ? (undefined as unknown as T) : (arg as T);
+    if (fair) this.state[Mutex.FAIR] = 1;
+    onThreadExit(this);
   }
 
-  async lock(): Promise<MutexGuard<T>> {
-    while (true) {
+  /** Whether waiters acquire the lock in arrival order. */
+  get fair(): boolean {
+    return this.state[Mutex.FAIR] === 1;
+  }
+
+  get poisoned(): boolean {
+    return Atomics.load(this.state, Mutex.POISONED) === 1;
+  }
+
+  /** Clears the poisoned flag once the protected data has been repaired. */
+  clearPoison() {
+    Atomics.store(this.state, Mutex.POISONED, 0);
+  }
+
+  async lock(options?: LockOptions): Promise<MutexGuard<T>> {
+    const owner = THREAD_ID;
+    await this._acquire(owner, options);
+    return this._guard(owner);
+  }
+
+  /** Blocking variant of `lock()`. */
+  lockSync(options: Pick<LockOptions, "timeout"> = {}): MutexGuard<T> {
+    assertCanBlock();
+    const owner = THREAD_ID;
+    this._acquireSync(owner, options);
+    return this._guard(owner);
+  }
+
+  /** Takes the lock if it is free right now, otherwise returns `null`. */
+  tryLock(): MutexGuard<T> | null {
+    const owner = THREAD_ID;
+    if (this.fair) {
+      if (!ticketTryTake(this.state, Mutex.QUEUE, owner)) return null;
+      Atomics.store(this.state, Mutex.IDX, owner);
+      return this._guard(owner);
+    }
+    return this._tryAcquire(owner) === Mutex.UNLOCKED ? this._guard(owner) : null;
+  }
+
+  private _guard(owner: number) {
+    const guard = new MutexGuard(this._data, () => this._release(owner), {
+      lock: () => this._acquire(owner),
+      lockSync: () => this._acquireSync(owner),
+    });
+    if (this.poisoned) throw new PoisonError(guard);
+    return guard;
+  }
+
+  /** Returns `UNLOCKED` if the lock was taken, otherwise the current owner. */
+  private _tryAcquire(owner: number) {
+    return Atomics.compareExchange(this.state, Mutex.IDX, Mutex.UNLOCKED, owner);
+  }
+
+  private async _acquire(owner: number, options: LockOptions = {}) {
+    const start = performance.now();
+    if (this.fair) {
+      await ticketWait(this.state, Mutex.QUEUE, owner, options, start);
+      Atomics.store(this.state, Mutex.IDX, owner);
+      return;
+    }
+    let current: number;
+    while ((current = this._tryAcquire(owner)) !== Mutex.UNLOCKED) {
+      await waitBounded(this.state, Mutex.IDX, current, options, start);
+    }
+  }
+
+  private _acquireSync(owner: number, { timeout }: Pick<LockOptions, "timeout"> = {}) {
+    const start = performance.now();
+    if (this.fair) {
+      ticketWaitSync(this.state, Mutex.QUEUE, owner, timeout, start);
+      Atomics.store(this.state, Mutex.IDX, owner);
+      return;
+    }
+    let current: number;
+    while ((current = this._tryAcquire(owner)) !== Mutex.UNLOCKED) {
+      waitBoundedSync(this.state, Mutex.IDX, current, timeout, start);
+    }
+  }
+
+  private _release(owner: number) {
+    const current = Atomics.compareExchange(this.state, Mutex.IDX, owner, Mutex.UNLOCKED);
+    if (current === Mutex.UNLOCKED) {
+      throw new Error("Mutex is not locked");
+    }
+    if (current !== owner) {
+      throw new Error(`Mutex is held by thread ${current}, not by the releasing thread ${owner}`);
+    }
+    if (this.fair) ticketRelease(this.state, Mutex.QUEUE);
+    else Atomics.notify(this.state, Mutex.IDX, 1);
+  }
+
+  /** @internal Poisons and releases the lock if `threadId` died holding it. */
+  _onThreadExit(threadId: number) {
+    if (Atomics.load(this.state, Mutex.IDX) === threadId) {
+      Atomics.store(this.state, Mutex.POISONED, 1);
       if (
-        Atomics.compareExchange(this.state, Mutex.IDX, Mutex.UNLOCKED, Mutex.LOCKED) === Mutex.UNLOCKED
+        Atomics.compareExchange(this.state, Mutex.IDX, threadId, Mutex.UNLOCKED) === threadId &&
+        !this.fair
       ) {
-        return new MutexGuard(this._data, () => this._release());
+        Atomics.notify(this.state, Mutex.IDX, 1);
+      }
+    }
+    // Also hands the lock on if the dead thread's ticket is being served
+    if (this.fair) ticketAbandonThread(this.state, Mutex.QUEUE, threadId);
+  }
+
+  static {
+    register("Mutex", this);
+  }
+}
+
+/**
+ * A condition variable for waiting on state guarded by a `Mutex`.
+ *
+ * `wait()` atomically releases the guard's lock while waiting and re-acquires
+ * it before returning, so the same guard stays usable afterwards. As with any
+ * condition variable, wakeups may be spurious: re-check the condition in a loop.
+ */
+export class Condvar extends SharedStruct {
+  private static readonly SEQ = 0;
+
+  constructor(arg?: SharedArrayBuffer, isHydrating = false) {
+    const isStateBuffer = isHydrating && arg instanceof SharedArrayBuffer;
+    super("Condvar", isStateBuffer ? arg : 4, 1);
+  }
+
+  async wait<T>(guard: MutexGuard<T>): Promise<void> {
+    await this._wait(guard);
+  }
+
+  /** Like `wait()`, but gives up after `ms`. Resolves `false` on timeout. */
+  async waitTimeout<T>(guard: MutexGuard<T>, ms: number): Promise<boolean> {
+    return await this._wait(guard, ms) !== "timed-out";
+  }
+
+  /** Blocking variant of `wait()`. */
+  waitSync<T>(guard: MutexGuard<T>): void {
+    this._waitSync(guard);
+  }
+
+  /** Blocking variant of `waitTimeout()`. */
+  waitTimeoutSync<T>(guard: MutexGuard<T>, ms: number): boolean {
+    return this._waitSync(guard, ms) !== "timed-out";
+  }
+
+  notifyOne() {
+    Atomics.add(this.state, Condvar.SEQ, 1);
+    Atomics.notify(this.state, Condvar.SEQ, 1);
+  }
+
+  notifyAll() {
+    Atomics.add(this.state, Condvar.SEQ, 1);
+    Atomics.notify(this.state, Condvar.SEQ);
+  }
+
+  private async _wait<T>(guard: MutexGuard<T>, timeout?: number) {
+    // Sampling the sequence before unlocking means a notify that lands in
+    // between makes waitAsync return "not-equal" instead of being lost.
+    const seq = Atomics.load(this.state, Condvar.SEQ);
+    guard.unlock();
+    try {
+      const res = Atomics.waitAsync(this.state, Condvar.SEQ, seq, timeout);
+      return res.async ? await res.value : res.value;
+    } finally {
+      await guard._relock();
+    }
+  }
+
+  private _waitSync<T>(guard: MutexGuard<T>, timeout?: number) {
+    // Checked up front so a refusal does not leave the guard unlocked
+    assertCanBlock();
+    const seq = Atomics.load(this.state, Condvar.SEQ);
+    guard.unlock();
+    try {
+      return Atomics.wait(this.state, Condvar.SEQ, seq, timeout);
+    } finally {
+      guard._relockSync();
+    }
+  }
+
+  static {
+    register("Condvar", this);
+  }
+}
+
+export class RwLockReadGuard<T> extends MutexGuard<T> {}
+export class RwLockWriteGuard<T> extends MutexGuard<T> {}
+
+/**
+ * A reader-writer lock: any number of readers or a single writer.
+ *
+ * Writer-preferring — once a writer is waiting, new readers queue behind it,
+ * so a steady stream of readers cannot starve writes.
+ */
+export class RwLock<
+  T extends SharedArrayBuffer | SharedStruct = SharedArrayBuffer,
+> extends SharedStruct {
+  // Number of active readers, or WRITE_LOCKED while a writer holds the lock
+  private static readonly IDX = 0;
+  private static readonly WRITERS_WAITING = 1;
+  private static readonly WRITE_LOCKED = -1;
+
+  private _data: T;
+
+  constructor(arg?: T | SharedArrayBuffer, isHydrating = false) {
+    const isStateBuffer = isHydrating && arg instanceof SharedArrayBuffer;
+    super("RwLock", isStateBuffer ? arg : 8, 2);
+    this._data = isStateBuffer ? (undefined as unknown as T) : (arg as T);
+  }
+
+  async read(): Promise<RwLockReadGuard<T>> {
+    while (true) {
+      const blocker = this._tryRead();
+      if (!blocker) return new RwLockReadGuard(this._data, () => this._releaseRead());
+      const res = Atomics.waitAsync(this.state, ...blocker);
+      if (res.async) await res.value;
+    }
+  }
+
+  /** Blocking variant of `read()`. */
+  readSync(): RwLockReadGuard<T> {
+    assertCanBlock();
+    while (true) {
+      const blocker = this._tryRead();
+      if (!blocker) return new RwLockReadGuard(this._data, () => this._releaseRead());
+      Atomics.wait(this.state, ...blocker);
+    }
+  }
+
+  async write(): Promise<RwLockWriteGuard<T>> {
+    Atomics.add(this.state, RwLock.WRITERS_WAITING, 1);
+    while (true) {
+      const current = this._tryWrite();
+      if (current === null) return new RwLockWriteGuard(this._data, () => this._releaseWrite());
+      const res = Atomics.waitAsync(this.state, RwLock.IDX, current);
+      if (res.async) await res.value;
+    }
+  }
+
+  /** Blocking variant of `write()`. */
+  writeSync(): RwLockWriteGuard<T> {
+    assertCanBlock();
+    Atomics.add(this.state, RwLock.WRITERS_WAITING, 1);
+    while (true) {
+      const current = this._tryWrite();
+      if (current === null) return new RwLockWriteGuard(this._data, () => this._releaseWrite());
+      Atomics.wait(this.state, RwLock.IDX, current);
+    }
+  }
+
+  /** Takes a read lock, or returns the index and value to wait on. */
+  private _tryRead(): [index: number, value: number] | null {
+    while (true) {
+      const current = Atomics.load(this.state, RwLock.IDX);
+      const writers = Atomics.load(this.state, RwLock.WRITERS_WAITING);
+      if (writers > 0) return [RwLock.WRITERS_WAITING, writers];
+      if (current === RwLock.WRITE_LOCKED) return [RwLock.IDX, current];
+      if (Atomics.compareExchange(this.state, RwLock.IDX, current, current + 1) === current) {
+        return null;
+      }
+    }
+  }
+
+  /** Takes the write lock, or returns the lock state to wait on. */
+  private _tryWrite(): number | null {
+    while (true) {
+      if (Atomics.compareExchange(this.state, RwLock.IDX, 0, RwLock.WRITE_LOCKED) === 0) {
+        Atomics.sub(this.state, RwLock.WRITERS_WAITING, 1);
+        Atomics.notify(this.state, RwLock.WRITERS_WAITING);
+        return null;
+      }
+      const current = Atomics.load(this.state, RwLock.IDX);
+      if (current !== 0) return current;
+    }
+  }
+
+  private _releaseRead() {
+    const prev = Atomics.sub(this.state, RwLock.IDX, 1);
+    if (prev <= 0) {
+      Atomics.add(this.state, RwLock.IDX, 1);
+      throw new Error("RwLock is not read-locked");
+    }
+    if (prev === 1) Atomics.notify(this.state, RwLock.IDX);
+  }
+
+  private _releaseWrite() {
+    if (
+      Atomics.compareExchange(this.state, RwLock.IDX, RwLock.WRITE_LOCKED, 0) !== RwLock.WRITE_LOCKED
+    ) {
+      throw new Error("RwLock is not write-locked");
+    }
+    Atomics.notify(this.state, RwLock.IDX);
+  }
+
+  static {
+    register("RwLock", this);
+  }
+}
+
+/**
+ * A reusable barrier for a fixed number of parties. Every `wait()` blocks
+ * until `parties` threads have arrived, then all are released together.
+ */
+export class Barrier extends SharedStruct {
+  private static readonly ARRIVED = 0;
+  private static readonly GENERATION = 1;
+  private static readonly PARTIES = 2;
+
+  constructor(arg: number | SharedArrayBuffer, isHydrating = false) {
+    const isStateBuffer = isHydrating && arg instanceof SharedArrayBuffer;
+    super("Barrier", isStateBuffer ? arg : 12, 3);
+    if (!isStateBuffer && typeof arg === "number") {
+      if (!Number.isInteger(arg) || arg < 1) {
+        throw new RangeError("Barrier parties must be a positive integer");
       }
-      const res = Atomics.waitAsync(this.state, Mutex.IDX, Mutex.LOCKED);
+      this.state[Barrier.PARTIES] = arg;
+    }
+  }
+
+  get parties(): number {
+    return this.state[Barrier.PARTIES]!;
+  }
+
+  /**
+   * Waits until all parties have arrived. Resolves `true` for exactly one
+   * of them (the last to arrive), `false` for the rest.
+   */
+  async wait(): Promise<boolean> {
+    const generation = this._arrive();
+    if (generation === null) return true;
+    while (Atomics.load(this.state, Barrier.GENERATION) === generation) {
+      const res = Atomics.waitAsync(this.state, Barrier.GENERATION, generation);
       if (res.async) await res.value;
     }
+    return false;
   }
 
-  private _release() {
-    if (Atomics.compareExchange(this.state, Mutex.IDX, Mutex.LOCKED, Mutex.UNLOCKED) !== Mutex.LOCKED) {
-      throw new Error("Mutex is not locked");
+  /** Blocking variant of `wait()`. */
+  waitSync(): boolean {
+    assertCanBlock();
+    const generation = this._arrive();
+    if (generation === null) return true;
+    while (Atomics.load(this.state, Barrier.GENERATION) === generation) {
+      Atomics.wait(this.state, Barrier.GENERATION, generation);
     }
-    Atomics.notify(this.state, Mutex.IDX, 1);
+    return false;
+  }
+
+  /** Returns the generation to wait out, or `null` if this was the last arrival. */
+  private _arrive(): number | null {
+    const generation = Atomics.load(this.state, Barrier.GENERATION);
+    if (Atomics.add(this.state, Barrier.ARRIVED, 1) + 1 === this.parties) {
+      Atomics.store(this.state, Barrier.ARRIVED, 0);
+      Atomics.add(this.state, Barrier.GENERATION, 1);
+      Atomics.notify(this.state, Barrier.GENERATION);
+      return null;
+    }
+    return generation;
   }
 
   static {
-    register("Mutex", this);
+    register("Barrier", this);
+  }
+}
+
+/** Waits for a dynamic number of tasks to finish, like Go's `sync.WaitGroup`. */
+export class WaitGroup extends SharedStruct {
+  private static readonly IDX = 0;
+
+  constructor(arg?: SharedArrayBuffer, isHydrating = false) {
+    const isStateBuffer = isHydrating && arg instanceof SharedArrayBuffer;
+    super("WaitGroup", isStateBuffer ? arg : 4, 1);
+  }
+
+  add(delta = 1) {
+    const count = Atomics.add(this.state, WaitGroup.IDX, delta) + delta;
+    if (count < 0) {
+      Atomics.sub(this.state, WaitGroup.IDX, delta);
+      throw new Error("WaitGroup counter cannot be negative");
+    }
+    if (count === 0) Atomics.notify(this.state, WaitGroup.IDX);
+  }
+
+  done() {
+    this.add(-1);
+  }
+
+  /** Resolves once the counter drops to zero. */
+  async wait() {
+    while (true) {
+      const count = Atomics.load(this.state, WaitGroup.IDX);
+      if (count === 0) return;
+      const res = Atomics.waitAsync(this.state, WaitGroup.IDX, count);
+      if (res.async) await res.value;
+    }
+  }
+
+  /** Blocking variant of `wait()`. */
+  waitSync() {
+    assertCanBlock();
+    while (true) {
+      const count = Atomics.load(this.state, WaitGroup.IDX);
+      if (count === 0) return;
+      Atomics.wait(this.state, WaitGroup.IDX, count);
+    }
+  }
+
+  static {
+    register("WaitGroup", this);
+  }
+}
+
+/** A single-use countdown latch: `wait()` resolves once the count reaches zero. */
+export class Latch extends SharedStruct {
+  private static readonly IDX = 0;
+
+  constructor(arg: number | SharedArrayBuffer = 1, isHydrating = false) {
+    const isStateBuffer = isHydrating && arg instanceof SharedArrayBuffer;
+    super("Latch", isStateBuffer ? arg : 4, 1);
+    if (!isStateBuffer && typeof arg === "number") {
+      this.state[Latch.IDX] = arg;
+    }
+  }
+
+  get count(): number {
+    return Atomics.load(this.state, Latch.IDX);
+  }
+
+  countDown(amount = 1) {
+    while (true) {
+      const current = Atomics.load(this.state, Latch.IDX);
+      if (current === 0) return;
+      const next = Math.max(current - amount, 0);
+      if (Atomics.compareExchange(this.state, Latch.IDX, current, next) === current) {
+        if (next === 0) Atomics.notify(this.state, Latch.IDX);
+        return;
+      }
+    }
+  }
+
+  async wait() {
+    while (true) {
+      const current = Atomics.load(this.state, Latch.IDX);
+      if (current === 0) return;
+      const res = Atomics.waitAsync(this.state, Latch.IDX, current);
+      if (res.async) await res.value;
+    }
+  }
+
+  /** Blocking variant of `wait()`. */
+  waitSync() {
+    assertCanBlock();
+    while (true) {
+      const current = Atomics.load(this.state, Latch.IDX);
+      if (current === 0) return;
+      Atomics.wait(this.state, Latch.IDX, current);
+    }
+  }
+
+  static {
+    register("Latch", this);
+  }
+}
+
+export interface ChannelOptions {
+  /** Number of messages buffered before senders wait. */
+  capacity?: number;
+  /** Maximum size in bytes of a single JSON-encoded message. */
+  messageSize?: number;
+}
+
+/**
+ * A bounded multi-producer, multi-consumer queue of JSON-serializable values.
+ *
+ * Messages live in fixed-size slots inside the struct's own buffer, so a
+ * channel can be captured by spawned closures or wrapped in `Global<T>` and
+ * used from any thread. A short internal spin lock guards the ring; waiting
+ * for space or data is done on an epoch counter that changes with every
+ * send, receive and close.
+ */
+export class Channel<T> extends SharedStruct {
+  private static readonly LOCK = 0;
+  private static readonly EPOCH = 1;
+  private static readonly HEAD = 2;
+  private static readonly LENGTH = 3;
+  private static readonly CLOSED = 4;
+  private static readonly CAPACITY = 5;
+  private static readonly SLOT_INTS = 6;
+  private static readonly HEADER_INTS = 8;
+
+  constructor(
+    arg: number | ChannelOptions | SharedArrayBuffer = 1,
+    isHydrating = false,
+  ) {
+    const isStateBuffer = isHydrating && arg instanceof SharedArrayBuffer;
+    const options: ChannelOptions = typeof arg === "number"
+      ? { capacity: arg }
+      : isStateBuffer
+      ? {}
+      : arg as ChannelOptions;
+    const { capacity = 1, messageSize = 1024 } = options;
+    // Each slot holds a byte length followed by the encoded message
+    const slotInts = 1 + Math.ceil(messageSize / 4);
+    const sizeInt32 = Channel.HEADER_INTS + capacity * slotInts;
+
+    super("Channel", isStateBuffer ? arg : sizeInt32 * 4, sizeInt32);
+
+    if (!isStateBuffer) {
+      if (!Number.isInteger(capacity) || capacity < 1) {
+        throw new RangeError("Channel capacity must be a positive integer");
+      }
+      this.state[Channel.CAPACITY] = capacity;
+      this.state[Channel.SLOT_INTS] = slotInts;
+    }
+  }
+
+  get capacity(): number {
+    return this.state[Channel.CAPACITY]!;
+  }
+
+  /** Number of messages currently buffered. */
+  get length(): number {
+    return Atomics.load(this.state, Channel.LENGTH);
+  }
+
+  get closed(): boolean {
+    return Atomics.load(this.state, Channel.CLOSED) === 1;
+  }
+
+  /** Sends a value, waiting while the channel is full. */
+  async send(value: T): Promise<void> {
+    const bytes = this._encode(value);
+    while (true) {
+      const epoch = Atomics.load(this.state, Channel.EPOCH);
+      if (this._push(bytes)) return;
+      const res = Atomics.waitAsync(this.state, Channel.EPOCH, epoch);
+      if (res.async) await res.value;
+    }
+  }
+
+  /** Blocking variant of `send()`. */
+  sendSync(value: T): void {
+    assertCanBlock();
+    const bytes = this._encode(value);
+    while (true) {
+      const epoch = Atomics.load(this.state, Channel.EPOCH);
+      if (this._push(bytes)) return;
+      Atomics.wait(this.state, Channel.EPOCH, epoch);
+    }
+  }
+
+  /**
+   * Receives the next value, waiting while the channel is empty.
+   * Resolves to `undefined` once the channel is closed and drained.
+   */
+  async recv(): Promise<T | undefined> {
+    while (true) {
+      const epoch = Atomics.load(this.state, Channel.EPOCH);
+      const res = this._pop();
+      if (res === "closed") return undefined;
+      if (res !== "empty") return JSON.parse(res);
+      const wait = Atomics.waitAsync(this.state, Channel.EPOCH, epoch);
+      if (wait.async) await wait.value;
+    }
+  }
+
+  /** Blocking variant of `recv()`. */
+  recvSync(): T | undefined {
+    assertCanBlock();
+    while (true) {
+      const epoch = Atomics.load(this.state, Channel.EPOCH);
+      const res = this._pop();
+      if (res === "closed") return undefined;
+      if (res !== "empty") return JSON.parse(res);
+      Atomics.wait(this.state, Channel.EPOCH, epoch);
+    }
+  }
+
+  /**
+   * Closes the channel. Pending and future sends throw, receivers drain the
+   * remaining messages and then get `undefined`.
+   */
+  close() {
+    withSpinLock(this.state, Channel.LOCK, () => (this.state[Channel.CLOSED] = 1));
+    this._bump();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    while (true) {
+      const value = await this.recv();
+      if (value === undefined) return;
+      yield value;
+    }
+  }
+
+  private _encode(value: T): Uint8Array {
+    return encodeJson(value, "Channel", (this.state[Channel.SLOT_INTS]! - 1) * 4, "messageSize");
+  }
+
+  private _push(bytes: Uint8Array): boolean {
+    const pushed = withSpinLock(this.state, Channel.LOCK, () => {
+      if (this.state[Channel.CLOSED]) throw new ChannelClosedError();
+      const capacity = this.state[Channel.CAPACITY]!;
+      const length = this.state[Channel.LENGTH]!;
+      if (length === capacity) return false;
+
+      const slot = this._slotOffset((this.state[Channel.HEAD]! + length) % capacity);
+      this.state[slot] = bytes.byteLength;
+      new Uint8Array(this.buffer, (slot + 1) * 4, bytes.byteLength).set(bytes);
+      Atomics.store(this.state, Channel.LENGTH, length + 1);
+      return true;
+    });
+    if (pushed) this._bump();
+    return pushed;
+  }
+
+  /** The JSON text of the next message, which is never `empty` or `closed`. */
+  private _pop(): string | "empty" | "closed" {
+    const json = withSpinLock(this.state, Channel.LOCK, () => {
+      const length = this.state[Channel.LENGTH]!;
+      if (length === 0) return this.state[Channel.CLOSED] ? "closed" : "empty";
+
+      const head = this.state[Channel.HEAD]!;
+      const slot = this._slotOffset(head);
+      const text = decodeText(this.buffer, (slot + 1) * 4, this.state[slot]!);
+      this.state[Channel.HEAD] = (head + 1) % this.state[Channel.CAPACITY]!;
+      Atomics.store(this.state, Channel.LENGTH, length - 1);
+      return text;
+    });
+    if (json !== "empty" && json !== "closed") this._bump();
+    return json;
+  }
+
+  private _slotOffset(index: number) {
+    return Channel.HEADER_INTS + index * this.state[Channel.SLOT_INTS]!;
+  }
+
+  private _bump() {
+    Atomics.add(this.state, Channel.EPOCH, 1);
+    Atomics.notify(this.state, Channel.EPOCH);
+  }
+
+  static {
+    register("Channel", this);
+  }
+}
+
+export interface RingBufferOptions {
+  /** Number of slots, rounded up to a power of two. */
+  capacity?: number;
+  /** Store byte records of up to this many bytes instead of numbers. */
+  recordSize?: number;
+}
+
+// Scratch words for moving float64 values through the Int32Array state
+const F64_SCRATCH = new Float64Array(1);
+const I32_SCRATCH = new Int32Array(F64_SCRATCH.buffer);
+const RING_EMPTY = Symbol("empty");
+
+/**
+ * A bounded lock-free queue of numbers or byte records, for high-throughput
+ * producer/consumer pipelines between threads.
+ *
+ * Each slot carries a sequence number that tells producers and consumers
+ * whose turn it is, so `push()` and `pop()` never take a lock and never wait.
+ * The `*Async` and `*Sync` variants wait when the queue is full or empty.
+ */
+export class RingBuffer<T extends number | Uint8Array = number> extends SharedStruct {
+  private static readonly ENQ = 0;
+  private static readonly DEQ = 1;
+  private static readonly PUSHED = 2;
+  private static readonly POPPED = 3;
+  private static readonly PUSH_WAITERS = 4;
+  private static readonly POP_WAITERS = 5;
+  private static readonly CAPACITY = 6;
+  private static readonly RECORD_SIZE = 7;
+  private static readonly SLOT_INTS = 8;
+  // Even, so that float64 payloads stay 8-byte aligned
+  private static readonly HEADER_INTS = 10;
+
+  constructor(arg: number | RingBufferOptions | SharedArrayBuffer = 1024, isHydrating = false) {
+    const isStateBuffer = isHydrating && arg instanceof SharedArrayBuffer;
+    const options: RingBufferOptions = typeof arg === "number"
+      ? { capacity: arg }
+      : isStateBuffer
+      ? {}
+      : arg as RingBufferOptions;
+    const { capacity = 1024, recordSize = 0 } = options;
+    if (!isStateBuffer && !(Number.isInteger(capacity) && capacity >= 1 && capacity <= 2 ** 30)) {
+      throw new RangeError("RingBuffer capacity must be an integer between 1 and 2^30");
+    }
+    if (!isStateBuffer && !(Number.isInteger(recordSize) && recordSize >= 0)) {
+      throw new RangeError("RingBuffer recordSize must be a non-negative integer");
+    }
+    const slots = 2 ** Math.ceil(Math.log2(capacity));
+    // Sequence number and record length, then the payload rounded to 8 bytes
+    const slotInts = 2 + (recordSize ? Math.ceil(recordSize / 8) * 2 : 2);
+    const sizeInt32 = RingBuffer.HEADER_INTS + slots * slotInts;
+
+    super("RingBuffer", isStateBuffer ? arg : sizeInt32 * 4, sizeInt32);
+
+    if (!isStateBuffer) {
+      this.state[RingBuffer.CAPACITY] = slots;
+      this.state[RingBuffer.RECORD_SIZE] = recordSize;
+      this.state[RingBuffer.SLOT_INTS] = slotInts;
+      for (let i = 0; i < slots; i++) this.state[this._slot(i)] = i;
+    }
+  }
+
+  get capacity(): number {
+    return this.state[RingBuffer.CAPACITY]!;
+  }
+
+  /** Approximate number of queued items; exact only while nobody is pushing or popping. */
+  get length(): number {
+    const length = (Atomics.load(this.state, RingBuffer.ENQ) - Atomics.load(this.state, RingBuffer.DEQ)) | 0;
+    return Math.max(0, Math.min(length, this.capacity));
+  }
+
+  /** Adds an item if there is room. Returns `false` when the queue is full. */
+  push(value: T): boolean {
+    if (!this._push(this._check(value))) return false;
+    this._signal(RingBuffer.PUSHED, RingBuffer.POP_WAITERS);
+    return true;
+  }
+
+  /** Adds items in order until the queue is full. Returns how many were added. */
+  pushBatch(values: Iterable<T>): number {
+    let pushed = 0;
+    for (const value of values) {
+      if (!this._push(this._check(value))) break;
+      pushed++;
+    }
+    if (pushed) this._signal(RingBuffer.PUSHED, RingBuffer.POP_WAITERS);
+    return pushed;
+  }
+
+  /** Removes the oldest item, or returns `undefined` when the queue is empty. */
+  pop(): T | undefined {
+    const value = this._pop();
+    if (value === RING_EMPTY) return undefined;
+    this._signal(RingBuffer.POPPED, RingBuffer.PUSH_WAITERS);
+    return value;
+  }
+
+  /** Removes up to `max` items without waiting. */
+  popBatch(max = Infinity): T[] {
+    const values: T[] = [];
+    while (values.length < max) {
+      const value = this._pop();
+      if (value === RING_EMPTY) break;
+      values.push(value);
+    }
+    if (values.length) this._signal(RingBuffer.POPPED, RingBuffer.PUSH_WAITERS);
+    return values;
+  }
+
+  /** Adds an item, waiting while the queue is full. */
+  async pushAsync(value: T, options: LockOptions = {}): Promise<void> {
+    const start = performance.now();
+    this._check(value);
+    // Registered waiters make the other side notify; see _signal()
+    Atomics.add(this.state, RingBuffer.PUSH_WAITERS, 1);
+    try {
+      while (true) {
+        const popped = Atomics.load(this.state, RingBuffer.POPPED);
+        if (this.push(value)) return;
+        await waitBounded(this.state, RingBuffer.POPPED, popped, options, start);
+      }
+    } finally {
+      Atomics.sub(this.state, RingBuffer.PUSH_WAITERS, 1);
+    }
+  }
+
+  /** Blocking variant of `pushAsync()`. */
+  pushSync(value: T, { timeout }: Pick<LockOptions, "timeout"> = {}): void {
+    assertCanBlock();
+    const start = performance.now();
+    this._check(value);
+    Atomics.add(this.state, RingBuffer.PUSH_WAITERS, 1);
+    try {
+      while (true) {
+        const popped = Atomics.load(this.state, RingBuffer.POPPED);
+        if (this.push(value)) return;
+        waitBoundedSync(this.state, RingBuffer.POPPED, popped, timeout, start);
+      }
+    } finally {
+      Atomics.sub(this.state, RingBuffer.PUSH_WAITERS, 1);
+    }
+  }
+
+  /** Removes the oldest item, waiting while the queue is empty. */
+  async popAsync(options: LockOptions = {}): Promise<T> {
+    const start = performance.now();
+    Atomics.add(this.state, RingBuffer.POP_WAITERS, 1);
+    try {
+      while (true) {
+        const pushed = Atomics.load(this.state, RingBuffer.PUSHED);
+        const value = this.pop();
+        if (value !== undefined) return value;
+        await waitBounded(this.state, RingBuffer.PUSHED, pushed, options, start);
+      }
+    } finally {
+      Atomics.sub(this.state, RingBuffer.POP_WAITERS, 1);
+    }
+  }
+
+  /** Blocking variant of `popAsync()`. */
+  popSync({ timeout }: Pick<LockOptions, "timeout"> = {}): T {
+    assertCanBlock();
+    const start = performance.now();
+    Atomics.add(this.state, RingBuffer.POP_WAITERS, 1);
+    try {
+      while (true) {
+        const pushed = Atomics.load(this.state, RingBuffer.PUSHED);
+        const value = this.pop();
+        if (value !== undefined) return value;
+        waitBoundedSync(this.state, RingBuffer.PUSHED, pushed, timeout, start);
+      }
+    } finally {
+      Atomics.sub(this.state, RingBuffer.POP_WAITERS, 1);
+    }
+  }
+
+  /**
+   * Bumps `counter` after items were pushed or popped. Waiters sample the
+   * counter before trying and sleep only while it is unchanged, so the notify
+   * can be skipped when nobody is registered.
+   */
+  private _signal(counter: number, waiters: number) {
+    Atomics.add(this.state, counter, 1);
+    if (Atomics.load(this.state, waiters) > 0) Atomics.notify(this.state, counter);
+  }
+
+  private _check(value: T): T {
+    const recordSize = this.state[RingBuffer.RECORD_SIZE]!;
+    if (recordSize === 0) {
+      if (typeof value !== "number") throw new TypeError("This RingBuffer holds numbers");
+    } else if (!(value instanceof Uint8Array)) {
+      throw new TypeError("This RingBuffer holds Uint8Array records");
+    } else if (value.byteLength > recordSize) {
+      throw new RangeError(`Record of ${value.byteLength} bytes exceeds the RingBuffer's recordSize`);
+    }
+    return value;
+  }
+
+  private _push(value: T): boolean {
+    const { state } = this;
+    const mask = this.capacity - 1;
+    let pos = Atomics.load(state, RingBuffer.ENQ);
+    let slot: number;
+    while (true) {
+      slot = this._slot(pos & mask);
+      const diff = (Atomics.load(state, slot) - pos) | 0;
+      if (diff === 0) {
+        const seen = Atomics.compareExchange(state, RingBuffer.ENQ, pos, (pos + 1) | 0);
+        if (seen === pos) break;
+        pos = seen;
+      } else if (diff < 0) {
+        return false; // the slot still holds an item from the previous lap
+      } else {
+        pos = Atomics.load(state, RingBuffer.ENQ);
+      }
+    }
+
+    if (typeof value === "number") {
+      F64_SCRATCH[0] = value;
+      state[slot + 2] = I32_SCRATCH[0]!;
+      state[slot + 3] = I32_SCRATCH[1]!;
+    } else {
+      state[slot + 1] = value.byteLength;
+      new Uint8Array(this.buffer, (slot + 2) * 4, value.byteLength).set(value);
+    }
+    // Publishes the payload to the consumer of this lap
+    Atomics.store(state, slot, (pos + 1) | 0);
+    return true;
+  }
+
+  private _pop(): T | typeof RING_EMPTY {
+    const { state } = this;
+    const mask = this.capacity - 1;
+    let pos = Atomics.load(state, RingBuffer.DEQ);
+    let slot: number;
+    while (true) {
+      slot = this._slot(pos & mask);
+      const diff = (Atomics.load(state, slot) - ((pos + 1) | 0)) | 0;
+      if (diff === 0) {
+        const seen = Atomics.compareExchange(state, RingBuffer.DEQ, pos, (pos + 1) | 0);
+        if (seen === pos) break;
+        pos = seen;
+      } else if (diff < 0) {
+        return RING_EMPTY;
+      } else {
+        pos = Atomics.load(state, RingBuffer.DEQ);
+      }
+    }
+
+    let value: T;
+    if (state[RingBuffer.RECORD_SIZE] === 0) {
+      I32_SCRATCH[0] = state[slot + 2]!;
+      I32_SCRATCH[1] = state[slot + 3]!;
+      value = F64_SCRATCH[0]! as T;
+    } else {
+      value = new Uint8Array(this.buffer, (slot + 2) * 4, state[slot + 1]).slice() as T;
+    }
+    // Hands the slot to the producer of the next lap
+    Atomics.store(state, slot, (pos + this.capacity) | 0);
+    return value;
+  }
+
+  private _slot(index: number) {
+    return RingBuffer.HEADER_INTS + index * this.state[RingBuffer.SLOT_INTS]!;
+  }
+
+  static {
+    register("RingBuffer", this);
   }
 }
@@ -0,0 +1,75 @@
+// Captured values that cannot be cloned into a worker stay in the thread that
+// spawned it. The worker receives a proxy instead, whose calls travel back over
+// a MessageChannel and run against the original value.
+
+interface RemoteCall {
+  id: number;
+  /** Method to call on the captured value; the value itself is called if absent. */
+  method?: string;
+  args: unknown[];
+}
+
+interface RemoteReply {
+  id: number;
+  result?: unknown;
+  error?: unknown;
+}
+
+/**
+ * Serves calls made through the proxy for `value`. Returns the port to send
+ * to the worker and a function that stops serving.
+ */
+export function exposeCapture(value: unknown): [port: MessagePort, close: () => void] {
+  const { port1, port2 } = new MessageChannel();
+  port1.onmessage = async ({ data }: MessageEvent<RemoteCall>) => {
+    const { id, method, args } = data;
+    let reply: RemoteReply;
+    try {
+      const result = method === undefined
+        ? (value as (...args: unknown[]) => unknown)(...args)
+        : (value as Record<string, (...args: unknown[]) => unknown>)[method]!(...args);
+      reply = { id, result: await result };
+    } catch (error) {
+      reply = { id, error };
+    }
+    try {
+      port1.postMessage(reply);
+    } catch (error) {
+      // The result (or error) could not be cloned back
+      port1.postMessage({ id, error: error instanceof Error ? error : String(error) });
+    }
+  };
+  return [port2, () => port1.close()];
+}
+
+/**
+ * The worker-side stand-in for a captured value. Calling it, or any method on
+ * it, runs the call on the original value in the parent and returns a promise
+ * of the result. Arguments and results are structured-cloned.
+ */
+export function connectCapture(port: MessagePort): unknown {
+  const pending = new Map<number, { resolve(value: unknown): void; reject(error: unknown): void }>();
+  let nextId = 0;
+  port.onmessage = ({ data }: MessageEvent<RemoteReply>) => {
+    const call = pending.get(data.id);
+    pending.delete(data.id);
+    if (!call) return;
+    if ("error" in data) call.reject(data.error);
+    else call.resolve(data.result);
+  };
+
+  const call = (method: string | undefined, args: unknown[]) =>
+    new Promise((resolve, reject) => {
+      const id = nextId++;
+      const message: RemoteCall = method === undefined ? { id, args } : { id, method, args };
+      port.postMessage(message);
+      pending.set(id, { resolve, reject });
+    });
+
+  return new Proxy(function () {}, {
+    apply: (_target, _this, args) => call(undefined, args),
+    // `then` stays undefined so that awaiting the proxy itself does not call out
+    get: (_target, prop) =>
+      typeof prop === "symbol" || prop === "then" ? undefined : (...args: unknown[]) => call(prop, args),
+  });
+}
@@ -0,0 +1,563 @@
+import {
+  AbortError,
+  CaptureError,
+  deserializeError,
+  QueueFullError,
+  serializeError,
+  TimeoutError,
+  WorkerError,
+} from "./errors.ts";
+import { exposeCapture } from "./rpc.ts";
+import { remapStack, SPAWN_OPTIONS, type SpawnSite } from "./sites.ts";
+import {
+  Global,
+  GLOBAL_MEMORY,
+  handleThreadExit,
+  nextThreadId,
+  setMainThreadBlocking,
+} from "./primitives.ts";
+import { describeUnclonable, getTransferables, isStructuredClonable, lossyCloneClass } from "./utils.ts";
+
+export {
+  AbortError,
+  CaptureError,
+  ChannelClosedError,
+  PoisonError,
+  QueueFullError,
+  TimeoutError,
+  WorkerError,
+} from "./errors.ts";
+export {
+  Barrier,
+  Channel,
+  type ChannelOptions,
+  Condvar,
+  type FairnessOptions,
+  Global,
+  growSharedBuffer,
+  Latch,
+  type LockOptions,
+  Mutex,
+  type MutexGuard,
+  RingBuffer,
+  type RingBufferOptions,
+  RwLock,
+  type RwLockReadGuard,
+  type RwLockWriteGuard,
+  Semaphore,
+  WaitGroup,
+} from "./primitives.ts";
+export { AtomicBigInt64, AtomicBool, AtomicFloat64, AtomicInt32 } from "./atomics.ts";
+export {
+  SharedArray,
+  type SharedCollectionOptions,
+  SharedMap,
+  type SharedPrimitive,
+} from "./collections.ts";
+export {
+  type HeapPtr,
+  type HeapViewConstructor,
+  SharedHeap,
+  type SharedHeapOptions,
+} from "./heap.ts";
+export { Once, OnceCell, type OnceCellOptions } from "./once.ts";
+export { type DeepReadonly, SharedValue, type SharedValueOptions } from "./value.ts";
+export {
+  defineStruct,
+  type FieldType,
+  type ScalarType,
+  type StructClass,
+  type StructFields,
+  type StructInit,
+  type StructInstance,
+  type StructOps,
+  type StructOptions,
+  type StructSchema,
+} from "./struct.ts";
+
+export const isMainThread = !("WorkerGlobalScope" in globalThis);
+
+export interface SpawnOptions {
+  /** Cancels the task and terminates its worker when aborted. */
+  signal?: AbortSignal;
+  /** Maximum run time in milliseconds before the worker is terminated. */
+  timeout?: number;
+  /**
+   * Values a generator task may yield ahead of its consumer before the worker
+   * pauses (default: 16).
+   */
+  highWaterMark?: number;
+}
+
+export interface PoolConfig {
+  /** Upper bound on live workers across all call sites. */
+  maxWorkers: number;
+  /** How long an idle worker is kept alive before it is terminated. */
+  idleTimeoutMs: number;
+  /** Number of calls allowed to wait for a worker once `maxWorkers` is reached. */
+  maxQueueLength: number;
+}
+
+export interface Config extends PoolConfig {
+  /** Permits blocking `*Sync` waits on the main thread of this runtime. */
+  allowMainThreadBlocking: boolean;
+  /**
+   * Rejects spawns in this thread that would capture a value the worker
+   * cannot faithfully receive, instead of dropping or flattening it.
+   */
+  strictCaptures: boolean;
+}
+
+const CONFIG: PoolConfig = {
+  maxWorkers: navigator.hardwareConcurrency * 4,
+  idleTimeoutMs: 1000 * 30,
+  maxQueueLength: Infinity,
+};
+
+declare global {
+  /**
+   * Runs the closure of `site` in a pooled worker. `options` are the options
+   * themselves in precompiled code, or the id `spawn()` parked them under.
+   */
+  function __worker_wrapper__(
+    props: Record<string, unknown>,
+    site: SpawnSite,
+    options?: SpawnOptions | number,
+    stream?: boolean,
+  ): unknown;
+}
+
+interface PoolEntry {
+  worker: Worker;
+  threadId: number;
+  busy: boolean;
+  timer?: number;
+  initialized: boolean;
+  /** Rejects the task the worker is running and retires the worker. */
+  cancel?: (error: Error) => void;
+}
+
+interface Task {
+  props: Record<string, unknown>;
+  site: SpawnSite;
+}
+
+interface TaskStream {
+  /** Values the worker may yield before waiting for `pull()`. */
+  highWaterMark: number;
+  onYield(value: unknown): void;
+  /** Set once the task is running: lets the worker yield one more value. */
+  pull?: () => void;
+}
+
+interface QueuedTask {
+  pool: PoolEntry[];
+  site: SpawnSite;
+  resolve: (entry: PoolEntry) => void;
+  reject: (error: Error) => void;
+}
+
+const WORKER_POOL = new Map<string, PoolEntry[]>();
+const TASK_QUEUE: QueuedTask[] = [];
+let TOTAL_ACTIVE_WORKERS = 0;
+let STRICT_CAPTURES = false;
+
+const DEFAULT_HIGH_WATER_MARK = 16;
+
+// Every worker starts here and imports the module that registers its closure
+const ENTRY_URL = new URL("./entry.ts", import.meta.url).href;
+
+globalThis.__worker_wrapper__ = (props, site, optionsOrId, stream) => {
+  let options: SpawnOptions = {};
+  if (typeof optionsOrId === "number") {
+    options = SPAWN_OPTIONS.get(optionsOrId) ?? {};
+    SPAWN_OPTIONS.delete(optionsOrId);
+  } else if (optionsOrId) {
+    options = optionsOrId;
+  }
+  const task: Task = { props, site };
+  return stream ? streamTask(task, options) : runTask(task, options);
+};
+
+async function* streamTask(task: Task, options: SpawnOptions): AsyncGenerator<unknown, unknown, undefined> {
+  const { highWaterMark = DEFAULT_HIGH_WATER_MARK } = options;
+  if (!Number.isInteger(highWaterMark) || highWaterMark < 1) {
+    throw new RangeError(`Invalid highWaterMark ${highWaterMark}`);
+  }
+
+  // Stopping early aborts the task like a caller's signal would
+  const controller = new AbortController();
+  const signal = options.signal ? AbortSignal.any([options.signal, controller.signal]) : controller.signal;
+
+  const buffered: unknown[] = [];
+  let settled = false;
+  let wake: (() => void) | undefined;
+  const stream: TaskStream = {
+    highWaterMark,
+    onYield: (value) => {
+      buffered.push(value);
+      wake?.();
+    },
+  };
+  const result = runTask(task, { ...options, signal }, stream);
+  const onSettled = () => {
+    settled = true;
+    wake?.();
+  };
+  result.then(onSettled, onSettled);
+
+  try {
+    while (true) {
+      while (buffered.length) {
+        yield buffered.shift();
+        stream.pull?.();
+      }
+      if (settled) return await result;
+      await new Promise<void>((resolve) => (wake = resolve));
+    }
+  } finally {
+    if (!settled) {
+      result.catch(() => {});
+      controller.abort();
+    }
+  }
+}
+
+async function runTask(
+  { props, site }: Task,
+  options: SpawnOptions,
+  stream?: TaskStream,
+): Promise<unknown> {
+  const { signal, timeout } = options;
+  if (signal?.aborted) throw new AbortError(signal.reason);
+
+  const { key, url, topLevels, topLevelVariables, sites } = site;
+  const captureError = (name: string, reason: string, options?: ErrorOptions) =>
+    new CaptureError(name, sites[name] ?? url, reason, options);
+
+  for (const name of topLevels) {
+    if (name in props) {
+      const val = props[name];
+      if (val instanceof Global || !isStructuredClonable(val)) {
+        if (STRICT_CAPTURES && !(val instanceof Global) && topLevelVariables.includes(name)) {
+          throw captureError(
+            name,
+            `${describeUnclonable(val)}, so the worker would use its own copy of the module's variable`,
+          );
+        }
+        delete props[name];
+      }
+    }
+  }
+
+  if (STRICT_CAPTURES) {
+    for (const [name, val] of Object.entries(props)) {
+      // Values that cannot be cloned at all are proxied, methods included
+      const cls = val instanceof Global || !isStructuredClonable(val) ? undefined : lossyCloneClass(val);
+      if (cls) throw captureError(name, `the value is a ${cls} instance and would arrive without its methods`);
+    }
+  }
+
+  // Locals the worker has no copy of are called in this thread instead
+  const remoteProps = new Map<string, unknown>();
+  for (const [name, val] of Object.entries(props)) {
+    if (!topLevels.includes(name) && !isStructuredClonable(val)) {
+      remoteProps.set(name, val);
+      delete props[name];
+    }
+  }
+
+  // Top-level names left out fall back to the worker's copy of the module,
+  // so one worker module serves every call of the site
+  let pool = WORKER_POOL.get(key);
+  if (!pool) WORKER_POOL.set(key, pool = []);
+
+  const entry = await acquireEntry(pool, site, signal);
+  // shutdown() may have dropped the worker before this call got to use it
+  if (!pool.includes(entry)) throw poolShutDown();
+  // The queue stopped listening for aborts when it handed over the worker
+  if (signal?.aborted) {
+    release(pool, entry);
+    throw new AbortError(signal.reason);
+  }
+
+  return new Promise((resolve, reject) => {
+    const w = entry.worker;
+    let cleaned = false;
+    const closeRemotes: (() => void)[] = [];
+    let deadline: number | undefined;
+
+    const sendMessage = () => {
+      const globalMemory = Object.fromEntries(GLOBAL_MEMORY.entries());
+      const transferList = getTransferables(props);
+      const remotes: Record<string, MessagePort> = {};
+      for (const [name, val] of remoteProps) {
+        const [port, close] = exposeCapture(val);
+        remotes[name] = port;
+        transferList.push(port);
+        closeRemotes.push(close);
+      }
+      try {
+        w.postMessage(
+          {
+            props,
+            remotes,
+            globalMemory,
+            threadId: entry.threadId,
+            stream: stream?.highWaterMark,
+            module: site.worker ?? url,
+            site: key,
+          },
+          transferList,
+        );
+      } catch (err) {
+        cleanup();
+        // Point at the variable responsible rather than the bare DataCloneError
+        for (const [name, val] of Object.entries(props)) {
+          const reason = describeUnclonable(val);
+          if (reason) return reject(captureError(name, reason, { cause: err }));
+        }
+        reject(err);
+      }
+    };
+
+    const cleanup = (terminate = false) => {
+      if (cleaned) return;
+      cleaned = true;
+      w.removeEventListener("message", onMsg);
+      w.removeEventListener("error", onError);
+      signal?.removeEventListener("abort", onAbort);
+      clearTimeout(deadline);
+      delete entry.cancel;
+      for (const close of closeRemotes) close();
+      if (terminate) {
+        retire(pool!, entry);
+        drainQueue();
+      } else {
+        release(pool!, entry);
+      }
+    };
+
+    // A running task cannot be interrupted cooperatively, so cancellation
+    // kills the worker outright instead of returning it to the pool.
+    const onAbort = () => {
+      cleanup(true);
+      reject(new AbortError(signal!.reason));
+    };
+
+    const onMsg = (e: MessageEvent) => {
+      const { type, result, error, value } = e.data as {
+        type: string;
+        result: unknown;
+        error: unknown;
+        value: unknown;
+      };
+      if (type === "ready") {
+        entry.initialized = true;
+        sendMessage();
+        return;
+      }
+      // Sent once the worker has loaded the closure, so that a cold worker's
+      // startup does not count against the task
+      if (type === "start") {
+        if (timeout !== undefined) {
+          deadline = setTimeout(() => {
+            cleanup(true);
+            reject(new TimeoutError(timeout));
+          }, timeout);
+        }
+        return;
+      }
+      if (type === "yield") {
+        stream?.onYield(value);
+        return;
+      }
+      cleanup();
+      if (type === "error") reject(new WorkerError(deserializeError(error, remapStack), key));
+      else resolve(result);
+    };
+
+    // The worker's state is unknown after an uncaught error, so it is not reused
+    const onError = (e: ErrorEvent) => {
+      e.preventDefault();
+      cleanup(true);
+      reject(new WorkerError(deserializeError(uncaughtError(e), remapStack), key));
+    };
+
+    entry.cancel = (error) => {
+      cleanup(true);
+      reject(error);
+    };
+
+    if (stream) {
+      stream.pull = () => {
+        if (!cleaned) w.postMessage({ type: "pull" });
+      };
+    }
+
+    w.addEventListener("message", onMsg);
+    w.addEventListener("error", onError);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    if (entry.initialized) sendMessage();
+  });
+}
+
+/**
+ * An error that escaped a worker's task, such as one thrown from a timer,
+ * flattened like those the worker reports itself. Deno only passes on its
+ * message and location.
+ */
+function uncaughtError(e: ErrorEvent): unknown {
+  if (e.error != null) return serializeError(e.error);
+  const [, name = "Error", message = e.message] = e.message.match(/^(?:Uncaught )?(\w+): (.*)$/s) ?? [];
+  const location = e.filename ? `\n    at ${e.filename}:${e.lineno}:${e.colno}` : "";
+  return { __error__: true, name, message, stack: `${name}: ${message}${location}`, props: {} };
+}
+
+export function configure(config: Partial<Config>) {
+  const { allowMainThreadBlocking, strictCaptures, ...pool } = config;
+  const { maxWorkers, idleTimeoutMs, maxQueueLength } = pool;
+  if (maxWorkers !== undefined && (!Number.isInteger(maxWorkers) || maxWorkers < 1)) {
+    throw new RangeError("maxWorkers must be a positive integer");
+  }
+  if (idleTimeoutMs !== undefined && (!Number.isFinite(idleTimeoutMs) || idleTimeoutMs < 0)) {
+    throw new RangeError("idleTimeoutMs must be a non-negative finite number");
+  }
+  if (
+    maxQueueLength !== undefined &&
+    !(maxQueueLength === Infinity || (Number.isInteger(maxQueueLength) && maxQueueLength >= 0))
+  ) {
+    throw new RangeError("maxQueueLength must be a non-negative integer or Infinity");
+  }
+  if (allowMainThreadBlocking !== undefined) setMainThreadBlocking(allowMainThreadBlocking);
+  if (strictCaptures !== undefined) STRICT_CAPTURES = strictCaptures;
+  Object.assign(CONFIG, pool);
+  drainQueue();
+}
+
+function acquireEntry(
+  pool: PoolEntry[],
+  site: SpawnSite,
+  signal: AbortSignal | undefined,
+): Promise<PoolEntry> {
+  // Skip the line only if nobody else is waiting, to keep the queue FIFO
+  if (!TASK_QUEUE.length) {
+    const entry = claimEntry(pool, site);
+    if (entry) return Promise.resolve(entry);
+  }
+
+  if (TASK_QUEUE.length >= CONFIG.maxQueueLength) {
+    return Promise.reject(new QueueFullError(CONFIG.maxQueueLength));
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      const idx = TASK_QUEUE.indexOf(task);
+      if (idx > -1) TASK_QUEUE.splice(idx, 1);
+      reject(new AbortError(signal!.reason));
+    };
+    const task: QueuedTask = {
+      pool,
+      site,
+      resolve: (entry) => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(entry);
+      },
+      reject: (error) => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    TASK_QUEUE.push(task);
+  });
+}
+
+function claimEntry(pool: PoolEntry[], site: SpawnSite): PoolEntry | undefined {
+  const idle = pool.find((e) => !e.busy);
+  if (idle) {
+    if (idle.timer) {
+      clearTimeout(idle.timer);
+      delete idle.timer;
+    }
+    idle.busy = true;
+    return idle;
+  }
+
+  if (TOTAL_ACTIVE_WORKERS >= CONFIG.maxWorkers) {
+    // Idle workers of other call sites give up their slot
+    const victim = findIdleEntry();
+    if (!victim) return undefined;
+    retire(...victim);
+  }
+
+  TOTAL_ACTIVE_WORKERS++;
+  const entry: PoolEntry = {
+    worker: new Worker(ENTRY_URL, { type: "module" }),
+    threadId: nextThreadId(),
+    busy: true,
+    initialized: false,
+  };
+  // Deno dispatches worker messages from a promise continuation, so "ready"
+  // can arrive before the task that claimed the worker starts listening
+  entry.worker.addEventListener("message", ({ data }) => {
+    if (data.type === "ready") entry.initialized = true;
+  });
+  pool.push(entry);
+  return entry;
+}
+
+function findIdleEntry(): [PoolEntry[], PoolEntry] | undefined {
+  for (const pool of WORKER_POOL.values()) {
+    const entry = pool.find((e) => !e.busy);
+    if (entry) return [pool, entry];
+  }
+  return undefined;
+}
+
+function drainQueue() {
+  while (TASK_QUEUE.length) {
+    const task = TASK_QUEUE[0]!;
+    const entry = claimEntry(task.pool, task.site);
+    if (!entry) return;
+    TASK_QUEUE.shift();
+    task.resolve(entry);
+  }
+}
+
+/** Returns a worker that finished its task to the pool, for the next call to claim. */
+function release(pool: PoolEntry[], entry: PoolEntry) {
+  entry.busy = false;
+  entry.timer = setTimeout(() => {
+    retire(pool, entry);
+    drainQueue();
+  }, CONFIG.idleTimeoutMs);
+  drainQueue();
+}
+
+/** Terminates a worker. Entries already retired, or dropped by `shutdown()`, are left alone. */
+function retire(pool: PoolEntry[], entry: PoolEntry) {
+  const idx = pool.indexOf(entry);
+  if (idx === -1) return;
+  pool.splice(idx, 1);
+  if (entry.timer) clearTimeout(entry.timer);
+  entry.worker.terminate();
+  handleThreadExit(entry.threadId);
+  TOTAL_ACTIVE_WORKERS--;
+}
+
+const poolShutDown = () => new AbortError(new Error("The worker pool was shut down"));
+
+export function shutdown() {
+  // Calls still waiting for a worker would otherwise never settle
+  const queued = TASK_QUEUE.splice(0);
+  for (const task of queued) task.reject(poolShutDown());
+  for (const pool of WORKER_POOL.values()) {
+    for (const entry of [...pool]) {
+      if (entry.cancel) entry.cancel(poolShutDown());
+      else retire(pool, entry);
+    }
+  }
+  WORKER_POOL.clear();
+}
@@ -0,0 +1,49 @@
+import type { SpawnOptions } from "./runtime.ts";
+import { originalPosition, type SourceMap } from "./sourcemap.ts";
+
+/**
+ * @internal What the pool needs to know about a `spawn()` call site, from
+ * `spawn()` at run time or from the compiler ahead of time.
+ */
+export interface SpawnSite {
+  /** Location of the call, as `file:line:col`. */
+  key: string;
+  /** URL of the module containing the call. */
+  url: string;
+  /**
+   * URL of the module generated for the site, which registers its closure.
+   * Precompiled sites have none: `url` registers it itself.
+   */
+  worker?: string;
+  topLevels: string[];
+  /** Top-level variables holding runtime state the worker would recompute. */
+  topLevelVariables: string[];
+  /** Where the closure first refers to each captured name, as `file:line:col`. */
+  sites: Record<string, string>;
+}
+
+/**
+ * @internal Options are runtime values and cannot be embedded in the script
+ * `spawn()` returns, so they are parked here and picked up by id.
+ */
+export const SPAWN_OPTIONS = new Map<number, SpawnOptions>();
+
+// Source maps of the worker files generated by this thread, by file URL
+const WORKER_SOURCE_MAPS = new Map<string, SourceMap>();
+
+/** @internal */
+export function registerSourceMap(file: string, map: SourceMap) {
+  WORKER_SOURCE_MAPS.set(file, map);
+}
+
+/**
+ * @internal Rewrites stack frames in generated worker files to the source they
+ * came from, for runtimes that do not apply the files' inline source maps.
+ */
+export function remapStack(stack: string): string {
+  return stack.replace(/(file:\/\/[^\s()]+?):(\d+):(\d+)/g, (frame, file: string, line: string, col: string) => {
+    const map = WORKER_SOURCE_MAPS.get(file);
+    const position = map && originalPosition(map, +line - 1, +col - 1);
+    return position ? `${map.sources[position[0]]}:${position[1] + 1}:${position[2] + 1}` : frame;
+  });
+}
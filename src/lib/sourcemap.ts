@@ -0,0 +1,132 @@
+// Just enough of the source map v3 format to describe generated worker files:
+// each segment maps a column of the generated file to a position in a source.
+
+/** `[generatedColumn, sourceIndex, originalLine, originalColumn]`, all 0-based. */
+export type Segment = [number, number, number, number];
+
+export interface SourceMap {
+  sources: string[];
+  /** Segments of each generated line, sorted by column. */
+  lines: Segment[][];
+}
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const INLINE_PREFIX = "//# sourceMappingURL=data:application/json;base64,";
+
+function encodeVlq(value: number): string {
+  let n = value < 0 ? (-value << 1) | 1 : value << 1;
+  let out = "";
+  do {
+    let digit = n & 31;
+    n >>>= 5;
+    if (n) digit |= 32;
+    out += BASE64[digit];
+  } while (n);
+  return out;
+}
+
+function decodeVlq(text: string, state: { pos: number }): number {
+  let result = 0;
+  let shift = 0;
+  let digit: number;
+  do {
+    digit = BASE64.indexOf(text[state.pos++]!);
+    result += (digit & 31) << shift;
+    shift += 5;
+  } while (digit & 32);
+  return result & 1 ? -(result >>> 1) : result >>> 1;
+}
+
+/** The `//# sourceMappingURL` comment embedding `map`. */
+export function inlineSourceMap({ sources, lines }: SourceMap): string {
+  const prev = [0, 0, 0];
+  const mappings = lines.map((segments) => {
+    let column = 0;
+    return segments.map(([col, source, line, originalCol]) => {
+      const encoded = encodeVlq(col - column) + encodeVlq(source - prev[0]!) +
+        encodeVlq(line - prev[1]!) + encodeVlq(originalCol - prev[2]!);
+      column = col;
+      prev[0] = source;
+      prev[1] = line;
+      prev[2] = originalCol;
+      return encoded;
+    }).join(",");
+  }).join(";");
+
+  const json = JSON.stringify({ version: 3, sources, names: [], mappings });
+  let binary = "";
+  for (const byte of new TextEncoder().encode(json)) binary += String.fromCharCode(byte);
+  return INLINE_PREFIX + btoa(binary);
+}
+
+/** Reads the inline source map at the end of `code`, if it has one. */
+export function readInlineSourceMap(code: string): SourceMap | undefined {
+  const start = code.lastIndexOf(INLINE_PREFIX);
+  if (start === -1) return undefined;
+  const base64 = code.substring(start + INLINE_PREFIX.length).trim();
+  const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  return parseSourceMap(new TextDecoder().decode(bytes));
+}
+
+/** Decodes a source map from its JSON text. */
+export function parseSourceMap(json: string): SourceMap {
+  const { sources, mappings } = JSON.parse(json) as { sources: string[]; mappings: string };
+
+  const prev = [0, 0, 0];
+  const lines = mappings.split(";").map((line) => {
+    let column = 0;
+    const segments: Segment[] = [];
+    for (const text of line ? line.split(",") : []) {
+      const state = { pos: 0 };
+      column += decodeVlq(text, state);
+      // Segments without a source position carry no information for us
+      if (state.pos >= text.length) continue;
+      prev[0]! += decodeVlq(text, state);
+      prev[1]! += decodeVlq(text, state);
+      prev[2]! += decodeVlq(text, state);
+      segments.push([column, prev[0]!, prev[1]!, prev[2]!]);
+    }
+    return segments;
+  });
+  return { sources, lines };
+}
+
+/**
+ * Maps `map`, whose sources are the generated lines of `inner`, through
+ * `inner` to the sources of `inner`. Segments `inner` does not cover are
+ * dropped.
+ */
+export function composeSourceMaps(map: SourceMap, inner: SourceMap): SourceMap {
+  return {
+    sources: inner.sources,
+    lines: map.lines.map((segments) =>
+      segments.flatMap(([column, , line, originalColumn]): Segment[] => {
+        const position = originalPosition(inner, line, originalColumn);
+        return position ? [[column, ...position]] : [];
+      })
+    ),
+  };
+}
+
+/**
+ * The source position of a generated position, found through the segment
+ * covering it. Columns past the segment's start carry over, which is exact
+ * for code copied verbatim.
+ */
+export function originalPosition(
+  map: SourceMap,
+  line: number,
+  column: number,
+): [source: number, line: number, column: number] | undefined {
+  let found: Segment | undefined;
+  for (const segment of map.lines[line] ?? []) {
+    if (segment[0] > column) break;
+    found = segment;
+  }
+  return found && [found[1], found[2], found[3] + column - found[0]];
+}
+
+/** Start columns of the identifiers and punctuation on a line, the points worth mapping. */
+export function tokenColumns(line: string): number[] {
+  return [...line.matchAll(/[\w$]+|\S/g)].map((m) => m.index);
+}
@@ -0,0 +1,330 @@
+import { register, SharedStruct } from "./primitives.ts";
+
+const SCALARS = {
+  i8: Int8Array,
+  u8: Uint8Array,
+  i16: Int16Array,
+  u16: Uint16Array,
+  i32: Int32Array,
+  u32: Uint32Array,
+  f32: Float32Array,
+  f64: Float64Array,
+  i64: BigInt64Array,
+  u64: BigUint64Array,
+} as const;
+
+export type ScalarType = keyof typeof SCALARS;
+export type FieldType = ScalarType | `${ScalarType}[${number}]`;
+export type StructSchema = Record<string, FieldType>;
+
+// The lib typings only accept ArrayBuffer in typed array constructors
+type ViewConstructor = {
+  new (buffer: SharedArrayBuffer, offset?: number, length?: number): ArrayBufferView;
+  readonly BYTES_PER_ELEMENT: number;
+};
+const viewConstructor = (type: ScalarType) => SCALARS[type] as unknown as ViewConstructor;
+
+type ArrayOf<S extends ScalarType> = InstanceType<(typeof SCALARS)[S]>;
+type ScalarValue<S extends ScalarType> = S extends "i64" | "u64" ? bigint : number;
+type IsArray<F> = F extends `${ScalarType}[${number}]` ? true : false;
+
+type ScalarKeys<S extends StructSchema> = {
+  [K in keyof S]: IsArray<S[K]> extends true ? never : K;
+}[keyof S];
+type ArrayKeys<S extends StructSchema> = Exclude<keyof S, ScalarKeys<S>>;
+type IntegerKeys<S extends StructSchema> = {
+  [K in ScalarKeys<S>]: S[K] extends "f32" | "f64" ? never : K;
+}[ScalarKeys<S>];
+type ValueOf<F> = F extends ScalarType ? ScalarValue<F> : never;
+type ElementOf<F> = F extends `${infer S extends ScalarType}[${number}]` ? ScalarValue<S> : never;
+
+/** Instance fields of a struct: scalars read and write atomically, arrays are typed array views. */
+export type StructFields<S extends StructSchema> =
+  & { -readonly [K in ScalarKeys<S>]: ValueOf<S[K]> }
+  & {
+    readonly [K in ArrayKeys<S>]: S[K] extends `${infer T extends ScalarType}[${number}]` ? ArrayOf<T>
+      : never;
+  };
+
+/** Initial values accepted by a struct constructor. */
+export type StructInit<S extends StructSchema> =
+  & { [K in ScalarKeys<S>]?: ValueOf<S[K]> }
+  & { [K in ArrayKeys<S>]?: ArrayLike<ElementOf<S[K]>> };
+
+/** Read-modify-write operations on the scalar fields of a struct. */
+export interface StructOps<S extends StructSchema> {
+  /** Atomically adds `delta` to a field and returns its previous value. */
+  add<K extends ScalarKeys<S>>(field: K, delta: ValueOf<S[K]>): ValueOf<S[K]>;
+  /** Atomically subtracts `delta` from a field and returns its previous value. */
+  sub<K extends ScalarKeys<S>>(field: K, delta: ValueOf<S[K]>): ValueOf<S[K]>;
+  /** Atomically replaces a field and returns its previous value. */
+  exchange<K extends ScalarKeys<S>>(field: K, value: ValueOf<S[K]>): ValueOf<S[K]>;
+  /**
+   * Atomically replaces an integer field if it equals `expected` and returns
+   * the value it held, so the swap happened when the result equals `expected`.
+   */
+  compareExchange<K extends IntegerKeys<S>>(
+    field: K,
+    expected: ValueOf<S[K]>,
+    replacement: ValueOf<S[K]>,
+  ): ValueOf<S[K]>;
+}
+
+export type StructInstance<S extends StructSchema> = SharedStruct & StructFields<S> & StructOps<S>;
+
+export interface StructClass<S extends StructSchema> {
+  new (init?: StructInit<S>): StructInstance<S>;
+  /** The schema the class was defined with. */
+  readonly schema: Readonly<S>;
+  /** Size in bytes of the `SharedArrayBuffer` backing each instance. */
+  readonly byteLength: number;
+}
+
+export interface StructOptions {
+  /**
+   * Name the class is registered under for hydration in workers. Defaults to
+   * one derived from the schema, so only structs with identical layouts that
+   * must stay distinct need one.
+   */
+  name?: string;
+}
+
+interface Field {
+  type: ScalarType;
+  offset: number;
+  /** Element count for array fields, `undefined` for scalars. */
+  length: number | undefined;
+}
+
+type Layout = Map<string, Field>;
+
+const FIELD_PATTERN = /^(i8|u8|i16|u16|i32|u32|f32|f64|i64|u64)(?:\[(\d+)\])?$/;
+// Members of the struct classes, which fields would shadow, and `then`, which
+// would make instances look like promises to `await`
+const RESERVED = new Set([
+  "__cls",
+  "state",
+  "buffer",
+  "constructor",
+  "add",
+  "sub",
+  "exchange",
+  "compareExchange",
+  "_layout",
+  "_update",
+  "_scalar",
+  "_replaceBuffer",
+  "then",
+]);
+
+// Floats have no atomic instructions, so they are loaded and stored through
+// an integer view of the same bits and converted with these scratch arrays.
+const F32_BITS = new Int32Array(1);
+const F32_VALUE = new Float32Array(F32_BITS.buffer);
+const F64_BITS = new BigInt64Array(1);
+const F64_VALUE = new Float64Array(F64_BITS.buffer);
+
+type AtomicView = Int8Array | Uint8Array | Int16Array | Uint16Array | Int32Array | Uint32Array;
+type AtomicBigView = BigInt64Array | BigUint64Array;
+
+// Typed array views per buffer, created on first access. Kept outside the
+// instances so they are neither cloned into workers nor stale after Global<T>
+// swaps in the parent's buffer. Keys are `bits:<type>` for scalar fields and
+// `field:<name>` for array fields, so a field named after a type gets its own.
+const VIEWS = new WeakMap<SharedArrayBuffer, Map<string, ArrayBufferView>>();
+
+function view<V extends ArrayBufferView>(buffer: SharedArrayBuffer, key: string, create: () => V): V {
+  let views = VIEWS.get(buffer);
+  if (!views) VIEWS.set(buffer, views = new Map());
+  let v = views.get(key) as V | undefined;
+  if (!v) views.set(key, v = create());
+  return v;
+}
+
+/** Integer view used for atomic access to a scalar field, with its index. */
+function cell(buffer: SharedArrayBuffer, { type, offset }: Field): [AtomicView | AtomicBigView, number] {
+  const bitsType = type === "f32" ? "i32" : type === "f64" ? "i64" : type;
+  const Ctor = viewConstructor(bitsType);
+  const v = view(buffer, `bits:${bitsType}`, () => new Ctor(buffer)) as AtomicView | AtomicBigView;
+  return [v, offset / Ctor.BYTES_PER_ELEMENT];
+}
+
+function fromBits(type: ScalarType, bits: number | bigint): number | bigint {
+  if (type === "f32") {
+    F32_BITS[0] = bits as number;
+    return F32_VALUE[0]!;
+  }
+  if (type === "f64") {
+    F64_BITS[0] = bits as bigint;
+    return F64_VALUE[0]!;
+  }
+  return bits;
+}
+
+function toBits(type: ScalarType, value: number | bigint): number | bigint {
+  if (type === "f32") {
+    F32_VALUE[0] = value as number;
+    return F32_BITS[0]!;
+  }
+  if (type === "f64") {
+    F64_VALUE[0] = value as number;
+    return F64_BITS[0]!;
+  }
+  return value;
+}
+
+// Atomics is typed per view kind; the layout guarantees the pairing
+type AnyAtomics = {
+  load(v: AtomicView | AtomicBigView, i: number): number | bigint;
+  store(v: AtomicView | AtomicBigView, i: number, value: number | bigint): number | bigint;
+  add(v: AtomicView | AtomicBigView, i: number, value: number | bigint): number | bigint;
+  sub(v: AtomicView | AtomicBigView, i: number, value: number | bigint): number | bigint;
+  exchange(v: AtomicView | AtomicBigView, i: number, value: number | bigint): number | bigint;
+  compareExchange(
+    v: AtomicView | AtomicBigView,
+    i: number,
+    expected: number | bigint,
+    replacement: number | bigint,
+  ): number | bigint;
+};
+const atomics = Atomics as unknown as AnyAtomics;
+
+function parseSchema(schema: StructSchema): [Layout, number] {
+  const layout: Layout = new Map();
+  let offset = 0;
+  let align = 4;
+
+  for (const [name, spec] of Object.entries(schema)) {
+    if (RESERVED.has(name)) throw new TypeError(`Struct field name "${name}" is reserved`);
+    const m = FIELD_PATTERN.exec(spec);
+    if (!m) throw new TypeError(`Invalid type "${spec}" for struct field "${name}"`);
+
+    const type = m[1] as ScalarType;
+    const size = SCALARS[type].BYTES_PER_ELEMENT;
+    const length = m[2] === undefined ? undefined : Number(m[2]);
+    if (length === 0) throw new TypeError(`Struct array field "${name}" must not be empty`);
+
+    // Fields are laid out in declaration order, each naturally aligned
+    offset = Math.ceil(offset / size) * size;
+    layout.set(name, { type, offset, length });
+    offset += size * (length ?? 1);
+    align = Math.max(align, size);
+  }
+
+  return [layout, Math.max(Math.ceil(offset / align) * align, 4)];
+}
+
+// Accessors are attached to the prototype from outside the class body
+const bufferOf = (s: SharedStruct) => (s as unknown as { buffer: SharedArrayBuffer }).buffer;
+
+const schemaName = (schema: StructSchema) =>
+  `Struct{${Object.entries(schema).map(([k, v]) => `${k}:${v}`).join(",")}}`;
+
+abstract class DefinedStruct extends SharedStruct {
+  protected abstract get _layout(): Layout;
+
+  add(field: string, delta: number | bigint) {
+    return this._update(field, "add", delta);
+  }
+
+  sub(field: string, delta: number | bigint) {
+    return this._update(field, "sub", delta);
+  }
+
+  exchange(field: string, value: number | bigint) {
+    const f = this._scalar(field);
+    const [v, i] = cell(this.buffer, f);
+    return fromBits(f.type, atomics.exchange(v, i, toBits(f.type, value)));
+  }
+
+  compareExchange(field: string, expected: number | bigint, replacement: number | bigint) {
+    const f = this._scalar(field);
+    if (f.type === "f32" || f.type === "f64") {
+      throw new TypeError(`compareExchange() is not supported on float field "${field}"`);
+    }
+    const [v, i] = cell(this.buffer, f);
+    return atomics.compareExchange(v, i, expected, replacement);
+  }
+
+  private _update(field: string, op: "add" | "sub", delta: number | bigint) {
+    const f = this._scalar(field);
+    const [v, i] = cell(this.buffer, f);
+    if (f.type !== "f32" && f.type !== "f64") return atomics[op](v, i, delta);
+
+    // Floats are updated with a compare-and-swap loop over their bits
+    while (true) {
+      const bits = atomics.load(v, i);
+      const current = fromBits(f.type, bits) as number;
+      const next = op === "add" ? current + (delta as number) : current - (delta as number);
+      if (atomics.compareExchange(v, i, bits, toBits(f.type, next)) === bits) return current;
+    }
+  }
+
+  private _scalar(field: string): Field {
+    const f = this._layout.get(field);
+    if (!f || f.length !== undefined) throw new TypeError(`"${field}" is not a scalar struct field`);
+    return f;
+  }
+}
+
+/**
+ * Defines a shared struct class from a schema of field names and types
+ * (`"i32"`, `"f64"`, `"u8[16]"`, ...). Instances are backed by a single
+ * `SharedArrayBuffer`, can be passed to workers or wrapped in `Global<T>`,
+ * and every scalar field is read and written atomically.
+ */
+export function defineStruct<const S extends StructSchema>(
+  schema: S,
+  { name = schemaName(schema) }: StructOptions = {},
+): StructClass<S> {
+  const [layout, byteLength] = parseSchema(schema);
+
+  class Struct extends DefinedStruct {
+    static readonly schema = Object.freeze({ ...schema });
+    static readonly byteLength = byteLength;
+
+    static {
+      register(name, this);
+    }
+
+    constructor(arg?: StructInit<S> | SharedArrayBuffer, isHydrating = false) {
+      const isStateBuffer = isHydrating && arg instanceof SharedArrayBuffer;
+      super(name, isStateBuffer ? arg : byteLength, byteLength / 4);
+      if (!isStateBuffer && arg) Object.assign(this, arg);
+    }
+
+    protected get _layout() {
+      return layout;
+    }
+  }
+
+  for (const [field, f] of layout) {
+    const descriptor: PropertyDescriptor = f.length === undefined
+      ? {
+        get(this: Struct) {
+          const [v, i] = cell(bufferOf(this), f);
+          return fromBits(f.type, atomics.load(v, i));
+        },
+        set(this: Struct, value: number | bigint) {
+          const [v, i] = cell(bufferOf(this), f);
+          atomics.store(v, i, toBits(f.type, value));
+        },
+      }
+      : {
+        get(this: Struct) {
+          const buffer = bufferOf(this);
+          const Ctor = viewConstructor(f.type);
+          return view(buffer, `field:${field}`, () => new Ctor(buffer, f.offset, f.length));
+        },
+        // Only used by the constructor's initial values
+        set(this: Struct, values: ArrayLike<number> & ArrayLike<bigint>) {
+          const target = (this as unknown as Record<string, { set(v: ArrayLike<unknown>): void }>)[field]!;
+          target.set(values);
+        },
+      };
+    Object.defineProperty(Struct.prototype, field, { ...descriptor, enumerable: true });
+  }
+
+  Object.defineProperty(Struct, "name", { value: name });
+  return Struct as unknown as StructClass<S>;
+}
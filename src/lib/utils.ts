@@ -1,9 +1,42 @@
-export function getCallSite(callFile = import.meta.url) {
-  const line = new Error().stack!.split("\n").find((l) =>
-    l.includes("file:") && !l.includes(callFile) && !l.includes(import.meta.url)
-  )!;
-  const m = line.match(/(file:\/\/.+?):(\d+):(\d+)/)!;
-  return { url: m[1]!, line: +m[2]!, col: +m[3]! };
+interface CallSite {
+  getFileName(): string | null | undefined;
+  getLineNumber(): number | null;
+  getColumnNumber(): number | null;
+}
+
+// V8's hook for formatting `stack`, which Deno, Node.js and Bun all support
+const V8Error = Error as ErrorConstructor & {
+  prepareStackTrace?: ((error: Error, callSites: CallSite[]) => unknown) | undefined;
+};
+
+/**
+ * Location of the code that called into the library, `depth` calls above the
+ * caller of `getCallSite()`. Frames are counted rather than told apart by
+ * file, as a bundle puts the library and its callers in the same file. Call
+ * sites are read from V8 rather than parsed from `stack`, where runtimes
+ * abbreviate long `data:` URLs.
+ */
+export function getCallSite(depth = 1) {
+  const { prepareStackTrace } = V8Error;
+  let frame: CallSite | undefined;
+  try {
+    V8Error.prepareStackTrace = (_, callSites) => callSites;
+    frame = (new Error().stack as unknown as CallSite[])[depth + 1];
+  } finally {
+    V8Error.prepareStackTrace = prepareStackTrace;
+  }
+  const location = frame?.getFileName();
+  if (!frame || !location) throw new Error("Cannot locate the call site");
+  return { url: locationUrl(location), line: frame.getLineNumber()!, col: frame.getColumnNumber()! };
+}
+
+// A URL of any scheme, such as file:, http: or data:, or a bare path as Deno
+// and Bun give for files
+function locationUrl(location: string): string {
+  // At least two letters, so that Windows drive letters are not taken for a scheme
+  if (/^[a-z][\w+.-]+:/i.test(location)) return location;
+  const path = location.replaceAll("\\", "/").replace(/^(?=[a-z]:)/i, "/");
+  return `file://${encodeURI(path).replace(/[?#]/g, encodeURIComponent)}`;
 }
 
 export function getTransferables(obj: unknown): Transferable[] {
@@ -59,3 +92,53 @@ export function isStructuredClonable(val: unknown): boolean {
     return false;
   }
 }
+
+/**
+ * Explains why `val` cannot be structured-cloned, naming the first property
+ * on the way to the culprit, or returns `undefined` if it can be.
+ */
+export function describeUnclonable(val: unknown): string | undefined {
+  const seen = new Set<unknown>();
+
+  function find(value: unknown, path: string): string | undefined {
+    const subject = path ? `property '${path}'` : "the value";
+    if (typeof value === "function") return `${subject} is a function`;
+    if (typeof value === "symbol") return `${subject} is a symbol`;
+    if (seen.has(value) || isStructuredClonable(value)) return undefined;
+    seen.add(value);
+
+    for (const [key, v] of Object.entries(value as object)) {
+      const reason = find(v, path ? `${path}.${key}` : key);
+      if (reason) return reason;
+    }
+    let detail = "";
+    try {
+      structuredClone(value);
+    } catch (err) {
+      detail = `: ${(err as Error).message}`;
+    }
+    return `${subject} (${typeName(value)}) cannot be cloned${detail}`;
+  }
+
+  return find(val, "");
+}
+
+/**
+ * Names the class of `val` if structured cloning would turn it into a plain
+ * object, dropping its methods. Built-in classes the algorithm understands
+ * and shared structs, which workers hydrate, are not lossy.
+ */
+export function lossyCloneClass(val: unknown): string | undefined {
+  if (!val || typeof val !== "object" || "__cls" in val) return undefined;
+  const proto = Object.getPrototypeOf(val);
+  if (proto === null || proto === Object.prototype) return undefined;
+  const ctor = proto.constructor;
+  if (typeof ctor === "function" && Function.prototype.toString.call(ctor).includes("[native code]")) {
+    return undefined;
+  }
+  return typeName(val);
+}
+
+function typeName(val: unknown): string {
+  return (val as object | null)?.constructor?.name || typeof val;
+}
@@ -0,0 +1,154 @@
+import { decodeText, encodeJson, growSharedBuffer, register, SharedStruct, withSpinLock } from "./primitives.ts";
+
+export interface SharedValueOptions {
+  /** Size in bytes the encoded value may grow to (default: 16 MiB or its initial size). */
+  maxByteLength?: number;
+}
+
+const DEFAULT_MAX_BYTE_LENGTH = 16 * 1024 * 1024;
+
+/** `T` with every nested property and element read-only. */
+export type DeepReadonly<T> = T extends (infer E)[] ? readonly DeepReadonly<E>[]
+  : T extends object ? { readonly [K in keyof T]: DeepReadonly<T[K]> }
+  : T;
+
+/** @internal */
+export function deepFreeze<T>(value: T): T {
+  if (value && typeof value === "object") {
+    for (const v of Object.values(value)) deepFreeze(v);
+    Object.freeze(value);
+  }
+  return value;
+}
+
+// Last decoded version per data buffer. Kept outside the instances so it is
+// not cloned along with them into workers.
+const DECODED = new WeakMap<SharedArrayBuffer, { seq: number; value: unknown }>();
+
+// Data buffers whose update() callback is running in this isolate
+const UPDATING = new WeakSet<SharedArrayBuffer>();
+
+/**
+ * A JSON-serializable value stored once in shared memory, so large configs and
+ * lookup tables are not cloned into every worker.
+ *
+ * Writes are serialized by a lock and published through a seqlock: readers
+ * never block writers, retry if a write overlapped their read, and decode each
+ * version only once per isolate.
+ */
+export class SharedValue<T> extends SharedStruct {
+  private static readonly SEQ = 0;
+  private static readonly LOCK = 1;
+  private static readonly LENGTH = 2;
+
+  private _data: SharedArrayBuffer;
+
+  constructor(arg: T | SharedArrayBuffer, options: SharedValueOptions | boolean = false) {
+    const isStateBuffer = options === true && arg instanceof SharedArrayBuffer;
+    super("SharedValue", isStateBuffer ? arg : 12, 3);
+    if (isStateBuffer) {
+      this._data = undefined as unknown as SharedArrayBuffer;
+      return;
+    }
+
+    const { maxByteLength } = typeof options === "object" ? options : {};
+    const bytes = encodeJson(arg, "SharedValue", maxByteLength ?? Infinity);
+    this._data = new SharedArrayBuffer(bytes.byteLength, {
+      maxByteLength: maxByteLength ?? Math.max(DEFAULT_MAX_BYTE_LENGTH, bytes.byteLength),
+    });
+    new Uint8Array(this._data).set(bytes);
+    this.state[SharedValue.LENGTH] = bytes.byteLength;
+  }
+
+  /** Incremented by every write. */
+  get version(): number {
+    return Atomics.load(this.state, SharedValue.SEQ) >>> 1;
+  }
+
+  /**
+   * Returns the current value. The result is frozen and shared by all reads
+   * of the same version in this isolate.
+   */
+  get(): DeepReadonly<T> {
+    return this._read().value;
+  }
+
+  /** Replaces the value. */
+  set(value: T) {
+    this._assertNotUpdating();
+    const bytes = this._encode(value);
+    withSpinLock(this.state, SharedValue.LOCK, () => this._write(bytes));
+  }
+
+  /**
+   * Replaces the value with `fn(current)`. `fn` runs without holding the lock
+   * and is called again if another write lands first, so none of them is lost.
+   */
+  update(fn: (current: DeepReadonly<T>) => T) {
+    this._assertNotUpdating();
+    while (true) {
+      const { seq, value } = this._read();
+      UPDATING.add(this._data);
+      let next: T;
+      try {
+        next = fn(value);
+      } finally {
+        UPDATING.delete(this._data);
+      }
+      const bytes = this._encode(next);
+      const committed = withSpinLock(this.state, SharedValue.LOCK, () => {
+        if (Atomics.load(this.state, SharedValue.SEQ) !== seq) return false;
+        this._write(bytes);
+        return true;
+      });
+      if (committed) return;
+    }
+  }
+
+  /** The current value with the sequence number it was read at. */
+  private _read(): { seq: number; value: DeepReadonly<T> } {
+    while (true) {
+      const seq = Atomics.load(this.state, SharedValue.SEQ);
+      if (seq & 1) continue; // a write is in progress
+      const cached = DECODED.get(this._data);
+      if (cached?.seq === seq) return { seq, value: cached.value as DeepReadonly<T> };
+
+      const length = Math.min(Atomics.load(this.state, SharedValue.LENGTH), this._data.byteLength);
+      const json = decodeText(this._data, 0, length);
+      if (Atomics.load(this.state, SharedValue.SEQ) !== seq) continue;
+
+      const value = deepFreeze(JSON.parse(json));
+      DECODED.set(this._data, { seq, value });
+      return { seq, value };
+    }
+  }
+
+  // A write from inside fn would make update() retry it forever
+  private _assertNotUpdating() {
+    if (UPDATING.has(this._data)) {
+      throw new Error("SharedValue.update() callbacks cannot write to the value they update");
+    }
+  }
+
+  private _encode(value: T): Uint8Array {
+    return encodeJson(value, "SharedValue", this._data.maxByteLength);
+  }
+
+  private _write(bytes: Uint8Array) {
+    if (bytes.byteLength > this._data.byteLength) {
+      growSharedBuffer(
+        this._data,
+        Math.min(Math.max(bytes.byteLength, this._data.byteLength * 2), this._data.maxByteLength),
+      );
+    }
+    // An odd sequence number tells readers that the bytes are in flux
+    Atomics.add(this.state, SharedValue.SEQ, 1);
+    new Uint8Array(this._data, 0, bytes.byteLength).set(bytes);
+    Atomics.store(this.state, SharedValue.LENGTH, bytes.byteLength);
+    Atomics.add(this.state, SharedValue.SEQ, 1);
+  }
+
+  static {
+    register("SharedValue", this);
+  }
+}
@@ -0,0 +1,99 @@
+// Bootstrap shared by every worker: receives tasks from the pool, runs the
+// spawned closure and posts back its result, yielded values or error.
+
+import { serializeError } from "./errors.ts";
+import { hydrate, hydrateGlobalMemory, setThreadId } from "./primitives.ts";
+import { connectCapture } from "./rpc.ts";
+import { getTransferables } from "./utils.ts";
+
+/**
+ * @internal The spawned closure, bound to the captured values it receives.
+ * Generated code wraps it so that top-level names the parent did not send
+ * fall back to the worker's copy of the module.
+ */
+export type WorkerTask = (props: Record<string, unknown>) => () => unknown;
+
+declare global {
+  /** Closures of the precompiled sites loaded in this thread, by site key. */
+  var __worker_tasks__: Record<string, WorkerTask> | undefined;
+}
+
+/** @internal What a precompiled worker is told about the closure to run. */
+export interface WorkerTarget {
+  /** URL of the module that registers the closure in `__worker_tasks__`. */
+  module: string;
+  /** Key of the closure's call site. */
+  site: string;
+}
+
+interface TaskMessage extends WorkerTarget {
+  type?: undefined;
+  props: Record<string, unknown>;
+  remotes: Record<string, MessagePort>;
+  globalMemory?: Record<string, SharedArrayBuffer>;
+  threadId?: number;
+  /** High water mark of a streaming task. */
+  stream?: number;
+}
+
+type Message = TaskMessage | { type: "pull" };
+
+// Values a streaming task may still yield before the caller asks for more
+let credits = 0;
+let onCredit: (() => void) | undefined;
+
+async function stream(iterator: Iterator<unknown> | AsyncIterator<unknown>, highWaterMark: number) {
+  credits = highWaterMark;
+  while (true) {
+    const { done, value } = await iterator.next();
+    if (done) return value;
+    postMessage({ type: "yield", value }, transferablesOf(value));
+    credits--;
+    while (credits <= 0) await new Promise<void>((resolve) => (onCredit = resolve));
+    onCredit = undefined;
+  }
+}
+
+function transferablesOf(value: unknown): Transferable[] {
+  try {
+    return getTransferables(value);
+  } catch (_) {
+    return [];
+  }
+}
+
+/**
+ * @internal Serves tasks for the closure `load()` resolves to, then tells the
+ * pool the worker is ready. A worker runs the closure of a single call site.
+ */
+export function runWorker(load: (target: WorkerTarget) => WorkerTask | Promise<WorkerTask>) {
+  let task: WorkerTask | undefined;
+
+  self.onmessage = async ({ data }: MessageEvent<Message>) => {
+    if (data.type === "pull") {
+      credits++;
+      onCredit?.();
+      return;
+    }
+    if (data.threadId) setThreadId(data.threadId);
+    if (data.globalMemory) hydrateGlobalMemory(data.globalMemory);
+    try {
+      // Loading the module registers the classes the props are rebuilt as
+      task ??= await load(data);
+      const props = hydrate(data.props) as Record<string, unknown>;
+      for (const [name, port] of Object.entries(data.remotes)) props[name] = connectCapture(port);
+      postMessage({ type: "start" });
+      const running = task(props)();
+      const result = data.stream
+        ? await stream(running as Iterator<unknown> | AsyncIterator<unknown>, data.stream)
+        : await running;
+      postMessage({ type: "success", result }, transferablesOf(result));
+    } catch (error) {
+      postMessage({ type: "error", error: serializeError(error) });
+    } finally {
+      for (const port of Object.values(data.remotes)) port.close();
+    }
+  };
+
+  postMessage({ type: "ready" });
+}
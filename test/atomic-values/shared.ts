@@ -0,0 +1,3 @@
+import { AtomicInt32, Global } from "experimental-threads";
+
+export const hits = new Global(new AtomicInt32());
@@ -0,0 +1,61 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+  AtomicBigInt64,
+  AtomicBool,
+  AtomicFloat64,
+  AtomicInt32,
+  shutdown,
+  spawn,
+  TimeoutError,
+} from "experimental-threads";
+import { hits } from "./shared.ts";
+
+Deno.test("Atomic Values Across Workers", async () => {
+  try {
+    const total = new AtomicFloat64();
+    const bytes = new AtomicBigInt64(10n);
+    const peak = new AtomicInt32(-1);
+    const ready = new AtomicBool();
+
+    // The main thread waits on a flag raised by the last worker to finish,
+    // with room for cold worker startup on a loaded machine
+    await Promise.all([
+      ready.waitUntil(true, { timeout: 60_000 }),
+      ...Array.from({ length: 4 }, (_, w) =>
+        eval(spawn(() => {
+          for (let i = 0; i < 250; i++) {
+            hits.value.add(1);
+            total.add(0.25);
+            bytes.add(2n);
+            peak.fetchMax(w * 1000 + i);
+          }
+          if (hits.value.load() === 1000) ready.store(true);
+        }))),
+    ]);
+
+    assertEquals(hits.value.load(), 1000);
+    assertEquals(total.load(), 250);
+    assertEquals(bytes.load(), 2010n);
+    assertEquals(peak.load(), 3249);
+
+    // A worker waits for a value set by the main thread
+    const count = new AtomicInt32();
+    const waiter = eval(spawn(async () => {
+      await count.waitUntil(3);
+      return count.load();
+    }));
+    for (let i = 0; i < 3; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      count.add(1);
+    }
+    assertEquals(await waiter, 3);
+
+    assertEquals(total.compareExchange(250, 1.5), 250);
+    assertEquals(total.compareExchange(250, 2), 1.5);
+    assertEquals(total.fetchMax(1), 1.5);
+    assertEquals(ready.compareExchange(true, false), true);
+    await assertRejects(() => ready.waitUntil(true, { timeout: 50 }), TimeoutError);
+  } finally {
+    shutdown();
+  }
+});
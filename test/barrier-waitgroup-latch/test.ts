@@ -0,0 +1,45 @@
+import { assertEquals } from "@std/assert";
+import { Barrier, Latch, shutdown, spawn, WaitGroup } from "experimental-threads";
+
+Deno.test("Barrier, WaitGroup and Latch Coordination", async () => {
+  try {
+    const start = new Latch(1);
+    const checkpoint = new Barrier(4);
+    const finished = new WaitGroup();
+    const slots = new Int32Array(new SharedArrayBuffer(16));
+
+    finished.add(4);
+
+    // Two workers, each with a nested sub-worker: four parties in total
+    const tasks = [0, 2].map((slot) =>
+      eval(spawn(async () => {
+        const nested = eval(spawn(async () => {
+          await start.wait();
+          Atomics.store(slots, slot + 1, 1);
+          const leader = await checkpoint.wait();
+          const complete = slots.every((v) => v === 1);
+          finished.done();
+          return { leader, complete };
+        }));
+
+        await start.wait();
+        Atomics.store(slots, slot, 1);
+        const leader = await checkpoint.wait();
+        // Past the barrier every party has finished phase one
+        const complete = slots.every((v) => v === 1);
+        finished.done();
+        return [{ leader, complete }, await nested];
+      }))
+    );
+
+    start.countDown();
+    await finished.wait();
+
+    const results = (await Promise.all(tasks)).flat();
+    assertEquals(results.length, 4);
+    assertEquals(results.every((r) => r.complete), true);
+    assertEquals(results.filter((r) => r.leader).length, 1);
+  } finally {
+    shutdown();
+  }
+});
@@ -0,0 +1,34 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { configure, Mutex, shutdown, spawn, WaitGroup } from "experimental-threads";
+
+Deno.test("Blocking Locks in Workers", async () => {
+  try {
+    const counter = new Mutex(new SharedArrayBuffer(4));
+    const done = new WaitGroup();
+
+    // The main thread refuses to block unless explicitly allowed
+    assertThrows(() => counter.lockSync(), Error, "main thread");
+
+    done.add(2);
+    const tasks = [0, 1].map(() =>
+      eval(spawn(() => {
+        for (let i = 0; i < 1000; i++) {
+          using guard = counter.lockSync();
+          const view = new Int32Array(guard.value);
+          view[0] = view[0]! + 1;
+        }
+        done.done();
+      }))
+    );
+
+    await done.wait();
+    await Promise.all(tasks);
+
+    configure({ allowMainThreadBlocking: true });
+    using guard = counter.lockSync({ timeout: 100 });
+    assertEquals(new Int32Array(guard.value)[0], 2000);
+  } finally {
+    configure({ allowMainThreadBlocking: false });
+    shutdown();
+  }
+});
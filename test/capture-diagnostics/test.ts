@@ -0,0 +1,49 @@
+import { assertEquals, assertRejects, assertStringIncludes } from "@std/assert";
+import { CaptureError, configure, shutdown, spawn } from "experimental-threads";
+
+const handlers = { json: { parse: (text: string) => JSON.parse(text) } };
+
+class Point {
+  constructor(readonly x: number, readonly y: number) {}
+
+  length() {
+    return Math.hypot(this.x, this.y);
+  }
+}
+
+Deno.test("Capture Diagnostics and Strict Mode", async () => {
+  try {
+    // By default the worker falls back to its own copy of the module variable
+    assertEquals(await eval(spawn(() => handlers.json.parse("[1]"))), [1]);
+
+    configure({ strictCaptures: true });
+
+    const err = await assertRejects(
+      () => eval(spawn(() => handlers.json.parse("[1]"))),
+      CaptureError,
+    );
+    assertEquals(err.variable, "handlers");
+    // Expected at the capture in the strict spawn above
+    const lines = (await Deno.readTextFile(new URL(import.meta.url))).split("\n");
+    const line = lines.findIndex((l) => l.trimStart().startsWith("() => eval(spawn(() => handlers"));
+    const column = lines[line]!.indexOf("handlers") + 1;
+    assertStringIncludes(err.location, `capture-diagnostics/test.ts:${line + 1}:${column}`);
+    assertStringIncludes(err.reason, "property 'json.parse' is a function");
+
+    // Class instances would be flattened into plain objects
+    const origin = new Point(3, 4);
+    const flattened = await assertRejects(
+      () => eval(spawn(() => Promise.resolve(origin.length()))),
+      CaptureError,
+    );
+    assertEquals(flattened.variable, "origin");
+    assertStringIncludes(flattened.message, "Point instance");
+
+    // Plain data and shared memory pass
+    const coords = { x: 3, y: 4 };
+    assertEquals(await eval(spawn(() => Math.hypot(coords.x, coords.y))), 5);
+  } finally {
+    configure({ strictCaptures: false });
+    shutdown();
+  }
+});
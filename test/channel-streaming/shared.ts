@@ -0,0 +1,3 @@
+import { Channel, Global } from "experimental-threads";
+
+export const results = new Global(new Channel<{ id: number; square: number }>(4));
@@ -0,0 +1,38 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { Channel, ChannelClosedError, shutdown, spawn } from "experimental-threads";
+import { results } from "./shared.ts";
+
+Deno.test("Channel Streaming Between Threads", async () => {
+  try {
+    // Captured channel: main -> worker -> nested worker -> main via Global
+    const jobs = new Channel<number>({ capacity: 2, messageSize: 16 });
+
+    const producer = (async () => {
+      for (let i = 1; i <= 20; i++) await jobs.send(i);
+      jobs.close();
+    })();
+
+    const task = eval(spawn(async () => {
+      await eval(spawn(async () => {
+        for await (const id of jobs) {
+          await results.value.send({ id, square: id * id });
+        }
+      }));
+      results.value.close();
+    }));
+
+    const received: number[] = [];
+    for await (const { id, square } of results.value) {
+      assertEquals(square, id * id);
+      received.push(id);
+    }
+
+    await Promise.all([producer, task]);
+
+    assertEquals(received, Array.from({ length: 20 }, (_, i) => i + 1));
+    assertEquals(await results.value.recv(), undefined);
+    await assertRejects(() => jobs.send(21), ChannelClosedError);
+  } finally {
+    shutdown();
+  }
+});
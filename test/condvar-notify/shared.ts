@@ -0,0 +1,4 @@
+import { Condvar, Global, Mutex } from "experimental-threads";
+
+export const ready = new Global(new Mutex(new SharedArrayBuffer(4)));
+export const readyChanged = new Global(new Condvar());
@@ -0,0 +1,36 @@
+import { assertEquals } from "@std/assert";
+import { delay } from "@std/async";
+import { shutdown, spawn } from "experimental-threads";
+import { ready, readyChanged } from "./shared.ts";
+
+Deno.test("Condvar Wait and Notify Across Workers", async () => {
+  try {
+    const waiters = [1, 2].map(() =>
+      eval(spawn(async () => {
+        using guard = await ready.value.lock();
+        const flag = new Int32Array(guard.value);
+        while (flag[0] === 0) await readyChanged.value.wait(guard);
+        // The guard holds the lock again after wait() returns
+        return flag[0];
+      }))
+    );
+
+    await delay(500);
+    {
+      using guard = await ready.value.lock();
+      new Int32Array(guard.value)[0] = 7;
+      readyChanged.value.notifyAll();
+    }
+
+    assertEquals(await Promise.all(waiters), [7, 7]);
+
+    // Nobody notifies: waitTimeout gives up and still re-locks
+    using guard = await ready.value.lock();
+    const start = performance.now();
+    assertEquals(await readyChanged.value.waitTimeout(guard, 100), false);
+    assertEquals(performance.now() - start >= 90, true);
+    assertEquals(new Int32Array(guard.value)[0], 7);
+  } finally {
+    shutdown();
+  }
+});
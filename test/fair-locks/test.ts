@@ -0,0 +1,48 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { Mutex, Semaphore, shutdown, spawn, TimeoutError } from "experimental-threads";
+
+Deno.test("Fair Mutex and Semaphore", async () => {
+  try {
+    const mutex = new Mutex(new SharedArrayBuffer(4), { fair: true });
+    const order: number[] = [];
+    const guard = mutex.tryLock()!;
+
+    // Waiters are served in arrival order; one that times out is skipped
+    const waiters = [1, 2, 3].map((n) =>
+      mutex.lock(n === 2 ? { timeout: 50 } : {}).then((g) => {
+        order.push(n);
+        g.unlock();
+      })
+    );
+    await assertRejects(() => waiters[1]!, TimeoutError);
+    assertEquals(mutex.tryLock(), null);
+    guard.unlock();
+    await Promise.all([waiters[0], waiters[2]]);
+    assertEquals(order, [1, 3]);
+
+    // The fair flag travels with the buffer
+    const fairInWorker = await eval(spawn(async () => {
+      using _guard = await mutex.lock();
+      return mutex.fair;
+    }));
+    assertEquals(fairInWorker, true);
+
+    // A large request at the head is not starved by smaller ones behind it
+    const sem = new Semaphore(1, { fair: true });
+    const served: string[] = [];
+    const big = sem.acquire(2).then((p) => {
+      served.push("big");
+      p[Symbol.dispose]();
+    });
+    const small = sem.acquire(1).then((p) => {
+      served.push("small");
+      p[Symbol.dispose]();
+    });
+    assertEquals(sem.tryAcquire(), null);
+    sem.release();
+    await Promise.all([big, small]);
+    assertEquals(served, ["big", "small"]);
+  } finally {
+    shutdown();
+  }
+});
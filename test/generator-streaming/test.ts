@@ -0,0 +1,84 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { delay } from "@std/async";
+import { AtomicInt32, shutdown, spawn } from "experimental-threads";
+
+Deno.test("Streaming Values From Generator Tasks", async () => {
+  try {
+    // Chunks arrive in order, transferred rather than copied
+    const size = 1 << 20;
+    const chunks = eval(spawn(async function* () {
+      for (let offset = 0; offset < size; offset += 1 << 16) {
+        const chunk = new Uint8Array(1 << 16).fill(offset >> 16);
+        yield chunk;
+      }
+      return "eof";
+    }));
+    const seen: number[] = [];
+    let next = await chunks.next();
+    for (; !next.done; next = await chunks.next()) seen.push(next.value[0]!);
+    assertEquals(seen, Array.from({ length: 16 }, (_, i) => i));
+    assertEquals(next.value, "eof");
+
+    // Synchronous generators stream too
+    const squares: number[] = [];
+    for await (const n of eval(spawn(function* () {
+      for (let i = 1; i <= 5; i++) yield i * i;
+    }))) squares.push(n);
+    assertEquals(squares, [1, 4, 9, 16, 25]);
+
+    // A slow consumer pauses the worker at the high-water mark
+    const produced = new AtomicInt32();
+    let consumed = 0;
+    for await (
+      const _ of eval(spawn(async function* () {
+        for (let i = 0; i < 20; i++) {
+          produced.add(1);
+          yield i;
+        }
+      }, { highWaterMark: 2 }))
+    ) {
+      consumed++;
+      await delay(10);
+      assert(produced.load() - consumed <= 2);
+    }
+    assertEquals(consumed, 20);
+
+    // Errors thrown mid-stream reach the consumer after the values before them
+    const received: number[] = [];
+    await assertRejects(async () => {
+      for await (
+        const n of eval(spawn(function* () {
+          yield 1;
+          yield 2;
+          throw new Error("corrupt chunk");
+        }))
+      ) received.push(n);
+    }, Error, "corrupt chunk");
+    assertEquals(received, [1, 2]);
+  } finally {
+    shutdown();
+  }
+});
+
+Deno.test("Breaking Out Of A Stream Cancels The Worker", async () => {
+  try {
+    const ticks = new AtomicInt32();
+    for await (
+      const tick of eval(spawn(async function* () {
+        while (true) {
+          ticks.add(1);
+          yield ticks.load();
+          await new Promise((r) => setTimeout(r, 5));
+        }
+      }))
+    ) {
+      if (tick === 3) break;
+    }
+
+    const stoppedAt = ticks.load();
+    await delay(200);
+    assertEquals(ticks.load(), stoppedAt);
+  } finally {
+    shutdown();
+  }
+});
@@ -0,0 +1,13 @@
+import { Global, Mutex } from "experimental-threads";
+
+// An append-only log: the first word holds the number of entries
+export const log = new Global(new Mutex(new SharedArrayBuffer(4, { maxByteLength: 64 * 1024 })));
+
+export async function append(value: number) {
+  using guard = await log.value.lock();
+  const count = new Int32Array(guard.value)[0]!;
+  if ((count + 2) * 4 > guard.value.byteLength) guard.grow(guard.value.byteLength * 2);
+  const entries = new Int32Array(guard.value);
+  entries[count + 1] = value;
+  entries[0] = count + 1;
+}
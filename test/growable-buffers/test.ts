@@ -0,0 +1,53 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { growSharedBuffer, Mutex, shutdown, spawn } from "experimental-threads";
+import { append, log } from "./shared.ts";
+
+Deno.test("Growable Buffers Shared Across Threads", async () => {
+  try {
+    // Created once, before any growth: a length-tracking view follows it
+    let entries: Int32Array;
+    {
+      using guard = log.value.tryLock()!;
+      entries = new Int32Array(guard.value);
+    }
+
+    await Promise.all([
+      ...Array.from({ length: 3 }, (_, w) =>
+        eval(spawn(async () => {
+          for (let i = 0; i < 100; i++) await append(w * 1000 + i);
+          // Nested workers see the same growing buffer
+          await eval(spawn(async () => {
+            for (let i = 100; i < 200; i++) await append(w * 1000 + i);
+          }));
+        }))),
+      (async () => {
+        for (let i = 0; i < 100; i++) await append(9000 + i);
+      })(),
+    ]);
+
+    assertEquals(entries[0], 700);
+    assertEquals(entries.length >= 701, true);
+    const values = [...entries.subarray(1, 701)].sort((a, b) => a - b);
+    assertEquals(new Set(values).size, 700);
+
+    // Concurrent growers never fail when another one got there first
+    const raced = new SharedArrayBuffer(8, { maxByteLength: 4096 });
+    const lengths = await Promise.all(Array.from({ length: 4 }, (_, w) =>
+      eval(spawn(() => {
+        for (let size = 16; size <= 4096; size *= 2) growSharedBuffer(raced, size - w);
+        return raced.byteLength;
+      }))
+    ));
+    assertEquals(lengths.every((length: number) => length >= 4093), true);
+    assertEquals(raced.byteLength, 4096);
+
+    assertThrows(() => growSharedBuffer(new SharedArrayBuffer(4), 8), TypeError);
+    assertThrows(() => growSharedBuffer(raced, 8192), RangeError);
+    const fixed = new Mutex(new SharedArrayBuffer(4, { maxByteLength: 8 }));
+    const guard = fixed.tryLock()!;
+    guard.unlock();
+    assertThrows(() => guard.grow(8), Error);
+  } finally {
+    shutdown();
+  }
+});
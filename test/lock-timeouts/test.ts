@@ -0,0 +1,40 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { AbortError, Mutex, Semaphore, shutdown, spawn, TimeoutError } from "experimental-threads";
+
+Deno.test("Lock Attempts, Timeouts and Cancellation", async () => {
+  try {
+    const mutex = new Mutex(new SharedArrayBuffer(4));
+    const guard = mutex.tryLock()!;
+    assertEquals(mutex.tryLock(), null);
+
+    // A worker gives up instead of hanging on the held lock
+    const outcome = await eval(spawn(async () => {
+      try {
+        await mutex.lock({ timeout: 100 });
+        return "locked";
+      } catch (err) {
+        return (err as Error).name;
+      }
+    }));
+    assertEquals(outcome, "TimeoutError");
+
+    const controller = new AbortController();
+    const pending = mutex.lock({ signal: controller.signal });
+    setTimeout(() => controller.abort("shutting down"), 50);
+    const err = await assertRejects(() => pending, AbortError);
+    assertEquals(err.cause, "shutting down");
+
+    guard.unlock();
+    using relocked = await mutex.lock({ timeout: 100 });
+    assertEquals(relocked.value instanceof SharedArrayBuffer, true);
+
+    const sem = new Semaphore(2);
+    const permit = sem.tryAcquire(2)!;
+    assertEquals(sem.tryAcquire(), null);
+    await assertRejects(() => sem.acquire({ timeout: 50 }), TimeoutError);
+    permit[Symbol.dispose]();
+    using _permit = await sem.acquire(2, { timeout: 50 });
+  } finally {
+    shutdown();
+  }
+});
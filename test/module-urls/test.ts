@@ -0,0 +1,43 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import ts from "typescript";
+import { shutdown } from "experimental-threads";
+import { spawnTransformer } from "experimental-threads/compiler";
+
+const toDataUrl = (code: string) => `data:text/javascript;base64,${btoa(code)}`;
+
+Deno.test("Spawn Sites Compile From data: Modules", async () => {
+  try {
+    const { scale } = await import(toDataUrl(`
+      import { spawn } from "experimental-threads";
+      const factor = 3;
+      export const scale = (values) => eval(spawn(() => values.map((v) => v * factor)));
+    `));
+    assertEquals(await scale([1, 2]), [3, 6]);
+  } finally {
+    shutdown();
+  }
+});
+
+Deno.test("Precompiled Sites Run From a Single Non-File Module", async () => {
+  try {
+    // Stands in for a bundle: one module, served from somewhere other than disk
+    const { outputText } = ts.transpileModule(
+      `
+      import { spawn } from "experimental-threads";
+      const offset = 1;
+      export const total = (values: number[]) => eval(spawn(() => values.reduce((a, b) => a + b, offset)));
+      `,
+      {
+        fileName: "bundle.ts",
+        compilerOptions: { target: ts.ScriptTarget.ESNext, module: ts.ModuleKind.ESNext },
+        transformers: { before: [spawnTransformer()] },
+      },
+    );
+    assertStringIncludes(outputText, "globalThis.__worker_tasks__");
+
+    const { total } = await import(toDataUrl(outputText));
+    assertEquals(await total([1, 2, 3]), 7);
+  } finally {
+    shutdown();
+  }
+});
@@ -0,0 +1,70 @@
+import { assertEquals, assertInstanceOf, assertRejects } from "@std/assert";
+import { AbortError, Mutex, type MutexGuard, PoisonError, shutdown, spawn, TimeoutError } from "experimental-threads";
+
+Deno.test("Mutex Poisoning When the Owner Dies", async () => {
+  try {
+    const mutex = new Mutex(new SharedArrayBuffer(4));
+    const locked = new Int32Array(new SharedArrayBuffer(4));
+
+    // The worker takes the lock and never lets go until it is terminated
+    const task = eval(spawn(async () => {
+      const guard = await mutex.lock();
+      new Int32Array(guard.value)[0] = 1;
+      Atomics.store(locked, 0, 1);
+      Atomics.notify(locked, 0);
+      await new Promise(() => {});
+    }, { timeout: 1_000 }));
+
+    await Atomics.waitAsync(locked, 0, 0).value;
+    assertEquals(mutex.tryLock(), null);
+
+    // Already waiting when the owner dies: woken up with the poisoned lock
+    const [err] = await Promise.all([
+      assertRejects(() => mutex.lock(), PoisonError),
+      assertRejects(() => task, TimeoutError),
+    ]);
+
+    const guard = (err as PoisonError<MutexGuard<SharedArrayBuffer>>).guard;
+    assertEquals(mutex.poisoned, true);
+    assertEquals(new Int32Array(guard.value)[0], 1);
+
+    // Repair and recover
+    new Int32Array(guard.value)[0] = 0;
+    mutex.clearPoison();
+    guard.unlock();
+
+    using relocked = await mutex.lock();
+    assertInstanceOf(relocked.value, SharedArrayBuffer);
+    assertEquals(mutex.poisoned, false);
+  } finally {
+    shutdown();
+  }
+});
+
+Deno.test("Mutex Poisoning When a Nested Owner Dies With Its Parent", async () => {
+  try {
+    const mutex = new Mutex(new SharedArrayBuffer(4));
+    const locked = new Int32Array(new SharedArrayBuffer(4));
+    const controller = new AbortController();
+
+    // Only the nested worker holds the lock, and it is terminated with its parent
+    const task = eval(spawn(async () => {
+      await eval(spawn(async () => {
+        await mutex.lock();
+        Atomics.store(locked, 0, 1);
+        Atomics.notify(locked, 0);
+        await new Promise(() => {});
+      }));
+    }, { signal: controller.signal }));
+
+    await Atomics.waitAsync(locked, 0, 0).value;
+    assertEquals(mutex.tryLock(), null);
+
+    controller.abort();
+    await assertRejects(() => task, AbortError);
+    await assertRejects(() => mutex.lock({ timeout: 5_000 }), PoisonError);
+    assertEquals(mutex.poisoned, true);
+  } finally {
+    shutdown();
+  }
+});
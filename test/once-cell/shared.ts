@@ -0,0 +1,12 @@
+import { delay } from "@std/async";
+import { AtomicInt32, Global, OnceCell } from "experimental-threads";
+
+export const squares = new Global(new OnceCell<number[]>());
+export const builds = new Global(new AtomicInt32());
+
+// Slow enough that every thread arrives while the first one is still building
+export async function buildSquares(): Promise<number[]> {
+  builds.value.add(1);
+  await delay(100);
+  return Array.from({ length: 100 }, (_, i) => i * i);
+}
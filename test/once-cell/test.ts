@@ -0,0 +1,63 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { AtomicInt32, Once, OnceCell, shutdown, spawn } from "experimental-threads";
+import { builds, buildSquares, squares } from "./shared.ts";
+
+Deno.test("OnceCell Initializes Once Across Threads", async () => {
+  try {
+    assertEquals(squares.value.get(), undefined);
+
+    // Main, three workers and a nested worker all race to build the table
+    const results = await Promise.all([
+      squares.value.getOrInit(buildSquares),
+      ...Array.from({ length: 3 }, () =>
+        eval(spawn(async () => {
+          const [own, nested] = await Promise.all([
+            squares.value.getOrInit(buildSquares),
+            eval(spawn(() => squares.value.getOrInit(buildSquares))),
+          ]);
+          return [own[99], nested[99]];
+        }))),
+    ]);
+
+    const [table] = results;
+    assertEquals(builds.value.load(), 1);
+    assertEquals(table?.[99], 9801);
+    assertEquals(results.slice(1), Array(3).fill([9801, 9801]));
+    assertEquals(squares.value.get(), table);
+    assertEquals(Object.isFrozen(table), true);
+  } finally {
+    shutdown();
+  }
+});
+
+Deno.test("Once Retries After A Failed Initializer", async () => {
+  try {
+    const once = new Once();
+    const attempts = new AtomicInt32();
+
+    await assertRejects(
+      () =>
+        eval(spawn(() =>
+          once.call(() => {
+            attempts.add(1);
+            throw new Error("migration failed");
+          })
+        )),
+      Error,
+      "migration failed",
+    );
+    assertEquals(once.completed, false);
+
+    // A later caller runs its own initializer; after that nothing runs again
+    await eval(spawn(() => once.callSync(() => void attempts.add(1))));
+    await once.call(() => void attempts.add(1));
+    assertEquals(once.completed, true);
+    assertEquals(attempts.load(), 2);
+
+    const cell = new OnceCell<string>();
+    assertThrows(() => cell.getOrInitSync(() => cell.getOrInitSync(() => "inner")), Error, "deadlock");
+    assertEquals(cell.getOrInitSync(() => "outer"), "outer");
+  } finally {
+    shutdown();
+  }
+});
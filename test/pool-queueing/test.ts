@@ -0,0 +1,106 @@
+import { assertEquals, assertInstanceOf, assertRejects, assertThrows } from "@std/assert";
+import { AbortError, configure, QueueFullError, shutdown, spawn, type SpawnOptions } from "experimental-threads";
+
+Deno.test("Pool Worker Cap and Queueing", async () => {
+  configure({ maxWorkers: 1, maxQueueLength: 1 });
+
+  try {
+    // [active, peak]
+    const counters = new SharedArrayBuffer(8);
+
+    const run = () =>
+      eval(spawn(async () => {
+        const view = new Int32Array(counters);
+        const active = Atomics.add(view, 0, 1) + 1;
+        if (active > Atomics.load(view, 1)) Atomics.store(view, 1, active);
+        await new Promise((r) => setTimeout(r, 200));
+        Atomics.sub(view, 0, 1);
+        return active;
+      }));
+
+    const first = run();
+    const second = run();
+
+    // One worker busy, one call waiting: the queue is now full
+    await assertRejects(() => run(), QueueFullError);
+
+    assertEquals(await Promise.all([first, second]), [1, 1]);
+    assertEquals(new Int32Array(counters)[1], 1);
+  } finally {
+    configure({
+      maxWorkers: navigator.hardwareConcurrency * 4,
+      maxQueueLength: Infinity,
+    });
+    shutdown();
+  }
+});
+
+Deno.test("Shutdown Rejects Running and Queued Calls", async () => {
+  configure({ maxWorkers: 1 });
+
+  try {
+    const run = () => eval(spawn(() => new Promise((r) => setTimeout(r, 200))));
+
+    const running = run();
+    const queued = run();
+
+    shutdown();
+    for (const call of [running, queued]) {
+      const err = await assertRejects(() => call, AbortError);
+      assertInstanceOf(err.cause, Error);
+    }
+  } finally {
+    configure({ maxWorkers: navigator.hardwareConcurrency * 4 });
+    shutdown();
+  }
+});
+
+Deno.test("Shutdown Keeps the Worker Cap for Later Calls", async () => {
+  configure({ maxWorkers: 1 });
+
+  try {
+    // [active, peak]
+    let counters = new SharedArrayBuffer(8);
+    const run = (options?: SpawnOptions) =>
+      eval(spawn(async () => {
+        const view = new Int32Array(counters);
+        const active = Atomics.add(view, 0, 1) + 1;
+        if (active > Atomics.load(view, 1)) Atomics.store(view, 1, active);
+        await new Promise((r) => setTimeout(r, 300));
+        Atomics.sub(view, 0, 1);
+      }, options));
+
+    // Its deadline must not fire once shutdown() has already settled it
+    const timed = run({ timeout: 500 });
+    await new Promise((r) => setTimeout(r, 200));
+    shutdown();
+    await assertRejects(() => timed, AbortError);
+
+    // The terminated worker may still get to count itself in the old buffer
+    counters = new SharedArrayBuffer(8);
+    await new Promise((r) => setTimeout(r, 500));
+    await Promise.all([run(), run()]);
+    assertEquals(new Int32Array(counters)[1], 1);
+  } finally {
+    configure({ maxWorkers: navigator.hardwareConcurrency * 4 });
+    shutdown();
+  }
+});
+
+Deno.test("Invalid Pool Config Is Rejected", () => {
+  for (
+    const config of [
+      { maxWorkers: 0 },
+      { maxWorkers: 1.5 },
+      { maxWorkers: NaN },
+      { idleTimeoutMs: -1 },
+      { idleTimeoutMs: Infinity },
+      { maxQueueLength: -1 },
+      { maxQueueLength: NaN },
+    ]
+  ) {
+    assertThrows(() => configure(config), RangeError);
+  }
+  // Unbounded queues stay allowed
+  configure({ maxQueueLength: Infinity });
+});
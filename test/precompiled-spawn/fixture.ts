@@ -0,0 +1,32 @@
+// Compiled by test.ts with spawnTransformer() before it runs
+import { spawn, WorkerError } from "experimental-threads";
+
+const factor = 3;
+
+export async function scale(values: number[]): Promise<number[]> {
+  const offset = 1;
+  return await eval(spawn(() => values.map((v) => v * factor + offset)));
+}
+
+export function nested(): Promise<number> {
+  return eval(spawn(async () => 1 + await eval(spawn(() => factor))));
+}
+
+export async function countTo(n: number): Promise<number[]> {
+  const counted = [];
+  for await (const i of eval(spawn(function* () {
+    for (let i = 1; i <= n; i++) yield i;
+  }, { highWaterMark: 1 }))) counted.push(i);
+  return counted;
+}
+
+export async function fail(): Promise<WorkerError> {
+  try {
+    await eval(spawn(() => {
+      throw new RangeError("out of range");
+    }, { timeout: 5_000 }));
+  } catch (err) {
+    if (err instanceof WorkerError) return err;
+  }
+  throw new Error("expected a WorkerError");
+}
@@ -0,0 +1,50 @@
+import { assert, assertEquals, assertInstanceOf, assertStringIncludes } from "@std/assert";
+import ts from "typescript";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { join } from "node:path";
+import { spawnTransformer } from "experimental-threads/compiler";
+import { shutdown } from "experimental-threads/runtime";
+
+const workerFiles = () => {
+  try {
+    return [...Deno.readDirSync(".workers")].length;
+  } catch {
+    return 0;
+  }
+};
+
+Deno.test("Precompiled Spawn Sites Run Without eval", async () => {
+  const outDir = await Deno.makeTempDir();
+  try {
+    const program = ts.createProgram([fileURLToPath(new URL("./fixture.ts", import.meta.url))], {
+      target: ts.ScriptTarget.ESNext,
+      module: ts.ModuleKind.ESNext,
+      outDir,
+    });
+    const { emitSkipped } = program.emit(undefined, undefined, undefined, false, { before: [spawnTransformer()] });
+    assert(!emitSkipped);
+
+    const outFile = join(outDir, "fixture.js");
+    const code = await Deno.readTextFile(outFile);
+    assert(!/\b(eval|spawn)\(/.test(code), code);
+    assertStringIncludes(code, `from "experimental-threads/runtime"`);
+
+    const before = workerFiles();
+    const { countTo, fail, nested, scale } = await import(pathToFileURL(outFile).href);
+
+    // Locals and top-level variables are captured as with eval()
+    assertEquals(await scale([1, 2]), [4, 7]);
+    assertEquals(await nested(), 4);
+    assertEquals(await countTo(3), [1, 2, 3]);
+
+    const err = await fail();
+    assertInstanceOf(err.cause, RangeError);
+    assertStringIncludes(err.stack!, "at spawn (test/precompiled-spawn/fixture.ts:25:16)");
+
+    // Nothing is generated at run time
+    assertEquals(workerFiles(), before);
+  } finally {
+    shutdown();
+    await Deno.remove(outDir, { recursive: true });
+  }
+});
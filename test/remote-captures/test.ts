@@ -0,0 +1,44 @@
+import { assertEquals } from "@std/assert";
+import { shutdown, spawn } from "experimental-threads";
+
+Deno.test("Calling Captured Functions And Objects In The Parent", async () => {
+  try {
+    const updates: number[] = [];
+    const progress = (fraction: number) => {
+      updates.push(fraction);
+    };
+    const lines: string[] = [];
+    const logger = {
+      prefix: "job",
+      info(message: string) {
+        return lines.push(`${this.prefix}: ${message}`);
+      },
+      fail(message: string) {
+        throw new Error(message);
+      },
+    };
+
+    const result = await eval(spawn(async () => {
+      await progress(0.5);
+      const count = await logger.info("halfway");
+
+      // Errors thrown in the parent reject the call in the worker
+      let failure = "";
+      try {
+        await logger.fail("disk full");
+      } catch (err) {
+        failure = (err as Error).message;
+      }
+
+      // Nested workers reach the original through the proxy they captured
+      await eval(spawn(() => progress(1)));
+      return { count, failure };
+    }));
+
+    assertEquals(result, { count: 1, failure: "disk full" });
+    assertEquals(updates, [0.5, 1]);
+    assertEquals(lines, ["job: halfway"]);
+  } finally {
+    shutdown();
+  }
+});
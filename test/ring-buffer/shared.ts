@@ -0,0 +1,3 @@
+import { Global, RingBuffer } from "experimental-threads";
+
+export const records = new Global(new RingBuffer<Uint8Array>({ capacity: 16, recordSize: 12 }));
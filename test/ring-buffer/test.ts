@@ -0,0 +1,46 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { RingBuffer, shutdown, spawn, TimeoutError } from "experimental-threads";
+import { records } from "./shared.ts";
+
+Deno.test("RingBuffer Producers and Consumers", async () => {
+  try {
+    // SPSC: the main thread streams numbers through a small ring
+    const numbers = new RingBuffer(50);
+    assertEquals(numbers.capacity, 64);
+    const consumer = eval(spawn(async () => {
+      let sum = 0;
+      for (let i = 0; i < 10_000; i++) sum += await numbers.popAsync();
+      return sum;
+    }));
+    for (let i = 0; i < 10_000; i++) await numbers.pushAsync(i + 0.5);
+    assertEquals(await consumer, 10_000 * 10_000 / 2);
+
+    // MPMC: several workers push byte records in batches through a Global
+    const producers = Array.from({ length: 3 }, (_, w) =>
+      eval(spawn(async () => {
+        for (let i = 0; i < 100; i += 10) {
+          const batch = Array.from({ length: 10 }, (_, j) => new TextEncoder().encode(`w${w}:${i + j}`));
+          let sent = 0;
+          while (sent < batch.length) {
+            sent += records.value.pushBatch(batch.slice(sent));
+            if (sent < batch.length) await records.value.pushAsync(batch[sent++]!);
+          }
+        }
+      }))
+    );
+    const received = new Set<string>();
+    while (received.size < 300) {
+      for (const record of records.value.popBatch(8)) received.add(new TextDecoder().decode(record));
+      if (received.size < 300) received.add(new TextDecoder().decode(await records.value.popAsync()));
+    }
+    await Promise.all(producers);
+    assertEquals(received.has("w2:99"), true);
+    assertEquals(records.value.pop(), undefined);
+
+    await assertRejects(() => numbers.popAsync({ timeout: 50 }), TimeoutError);
+    assertThrows(() => records.value.push(new Uint8Array(13)), RangeError);
+    assertThrows(() => numbers.push(new Uint8Array(1) as unknown as number), TypeError);
+  } finally {
+    shutdown();
+  }
+});
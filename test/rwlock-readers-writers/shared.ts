@@ -0,0 +1,3 @@
+import { Global, RwLock } from "experimental-threads";
+
+export const table = new Global(new RwLock(new SharedArrayBuffer(4)));
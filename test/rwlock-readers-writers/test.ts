@@ -0,0 +1,46 @@
+import { assertEquals } from "@std/assert";
+import { delay } from "@std/async";
+import { shutdown, spawn } from "experimental-threads";
+import { table } from "./shared.ts";
+
+Deno.test("RwLock Shared Readers and Preferred Writers", async () => {
+  try {
+    const mainRead = await table.value.read();
+    new Int32Array(mainRead.value)[0] = 1;
+
+    // Readers in other threads proceed while main holds a read guard
+    const seen = await eval(spawn(async () => {
+      using guard = await table.value.read();
+      return new Int32Array(guard.value)[0];
+    }));
+    assertEquals(seen, 1);
+
+    const writerWaiting = new Int32Array(new SharedArrayBuffer(4));
+    const writer = eval(spawn(async () => {
+      // write() registers as a waiting writer synchronously
+      const pending = table.value.write();
+      Atomics.store(writerWaiting, 0, 1);
+      Atomics.notify(writerWaiting, 0);
+      using guard = await pending;
+      new Int32Array(guard.value)[0] = 2;
+    }));
+
+    // Once a writer is waiting, new readers queue behind it
+    await Atomics.waitAsync(writerWaiting, 0, 0).value;
+    let lateReaderDone = false;
+    const lateReader = table.value.read().then((guard) => {
+      lateReaderDone = true;
+      return guard;
+    });
+    await delay(200);
+    assertEquals(lateReaderDone, false);
+
+    mainRead.unlock();
+    await writer;
+
+    using guard = await lateReader;
+    assertEquals(new Int32Array(guard.value)[0], 2);
+  } finally {
+    shutdown();
+  }
+});
@@ -0,0 +1,3 @@
+import { Global, SharedMap } from "experimental-threads";
+
+export const results = new Global(new SharedMap<number, string>());
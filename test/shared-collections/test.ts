@@ -0,0 +1,51 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { SharedArray, SharedMap, type SharedPrimitive, shutdown, spawn } from "experimental-threads";
+import { results } from "./shared.ts";
+
+Deno.test("SharedArray and SharedMap Across Workers", async () => {
+  try {
+    const seen = new SharedMap<string, boolean>();
+    const log = new SharedArray<string>(["start"]);
+
+    // Overlapping ranges: every id is claimed by exactly one worker
+    const claimed = await Promise.all(Array.from({ length: 4 }, (_, w) =>
+      eval(spawn(() => {
+        let mine = 0;
+        for (let id = w * 50; id < w * 50 + 100; id++) {
+          if (!seen.setIfAbsent(`item-${id}`, true)) continue;
+          mine++;
+          log.push(`item-${id}`);
+          results.value.set(id, `worker ${w}`);
+        }
+        return mine;
+      }))
+    ));
+
+    assertEquals(claimed.reduce((a: number, b: number) => a + b, 0), 250);
+    assertEquals(seen.size, 250);
+    assertEquals(log.length, 251);
+    assertEquals(log.get(0), "start");
+    assertEquals(new Set(log.toArray()).size, 251);
+    assertEquals(results.value.size, 250);
+    assertEquals(results.value.get(0), "worker 0");
+    assertEquals(results.value.get(249), "worker 3");
+
+    // Overwrites leave garbage that is compacted instead of growing forever
+    const values = new SharedMap<number, SharedPrimitive>([[0, null], [-0, 1], [NaN, true]], {
+      maxByteLength: 4096,
+    });
+    for (let i = 0; i < 1000; i++) values.set(1, "x".repeat(100));
+    assertEquals(values.entries(), [[0, 1], [NaN, true], [1, "x".repeat(100)]]);
+    assertEquals(values.delete(NaN), true);
+    assertEquals(values.has(NaN), false);
+    assertThrows(() => values.set(2, "x".repeat(5000)), RangeError);
+
+    const last = log.get(250);
+    assertEquals(log.pop(), last);
+    assertEquals(log.length, 250);
+    assertThrows(() => log.set(500, "nope"), RangeError);
+    assertThrows(() => log.push({} as string), TypeError);
+  } finally {
+    shutdown();
+  }
+});
@@ -0,0 +1,3 @@
+import { Global, SharedHeap } from "experimental-threads";
+
+export const heap = new Global(new SharedHeap({ byteLength: 4096, maxByteLength: 1024 * 1024 }));
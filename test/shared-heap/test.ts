@@ -0,0 +1,41 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { type HeapPtr, SharedHeap, shutdown, spawn } from "experimental-threads";
+import { heap } from "./shared.ts";
+
+Deno.test("SharedHeap Allocations Across Workers", async () => {
+  try {
+    // Many small objects from several workers, growing the heap on demand
+    const perWorker: HeapPtr<Int32Array>[][] = await Promise.all(Array.from({ length: 4 }, (_, w) =>
+      eval(spawn(() => {
+        return Array.from({ length: 200 }, (_, i) => {
+          const ptr = heap.value.allocArray(Int32Array, 4);
+          heap.value.view(ptr, Int32Array).fill(w * 1000 + i);
+          return ptr;
+        });
+      }))
+    ));
+
+    assertEquals(heap.value.allocations, 800);
+    assertEquals(heap.value.byteLength > 4096, true);
+    perWorker.forEach((ptrs, w) =>
+      ptrs.forEach((ptr, i) => assertEquals([...heap.value.view(ptr, Int32Array)], Array(4).fill(w * 1000 + i)))
+    );
+
+    // Freed blocks merge back into space for one large allocation
+    for (const ptr of perWorker.flat()) heap.value.free(ptr);
+    assertEquals(heap.value.used, 0);
+    const big = heap.value.alloc(heap.value.byteLength - 64);
+    assertEquals(heap.value.sizeOf(big), heap.value.byteLength - 64);
+    heap.value.free(big);
+    assertThrows(() => heap.value.free(big), TypeError);
+
+    const fixed = new SharedHeap(1024);
+    const ptr = fixed.alloc(512);
+    assertEquals(fixed.view(ptr).byteOffset, ptr);
+    assertThrows(() => fixed.alloc(512), RangeError);
+    fixed.free(ptr);
+    fixed.alloc(512);
+  } finally {
+    shutdown();
+  }
+});
@@ -0,0 +1,3 @@
+import { Global, SharedValue } from "experimental-threads";
+
+export const config = new Global(new SharedValue({ name: "app", limits: [1, 2, 3], hits: 0 }));
@@ -0,0 +1,44 @@
+import { assertEquals, assertStrictEquals, assertThrows } from "@std/assert";
+import { SharedValue, shutdown, spawn } from "experimental-threads";
+import { config } from "./shared.ts";
+
+Deno.test("SharedValue Reads and Versioned Writes", async () => {
+  try {
+    const first = config.value.get();
+    assertStrictEquals(config.value.get(), first);
+    assertEquals(Object.isFrozen(first.limits), true);
+
+    // Workers see the main thread's writes and none of their updates is lost
+    config.value.set({ ...first, limits: Array.from({ length: 5000 }, (_, i) => i) });
+    const lengths = await Promise.all(Array.from({ length: 4 }, () =>
+      eval(spawn(() => {
+        for (let i = 0; i < 25; i++) {
+          config.value.update((c) => ({ ...c, limits: [...c.limits], hits: c.hits + 1 }));
+        }
+        return config.value.get().limits.length;
+      }))
+    ));
+
+    assertEquals(lengths, [5000, 5000, 5000, 5000]);
+    assertEquals(config.value.get().hits, 100);
+    assertEquals(config.value.version, 101);
+
+    const small = new SharedValue("tiny", { maxByteLength: 16 });
+    assertThrows(() => small.set("x".repeat(32)), RangeError);
+    assertEquals(small.get(), "tiny");
+    assertThrows(() => new SharedValue(() => 1), TypeError);
+  } finally {
+    shutdown();
+  }
+});
+
+Deno.test("SharedValue Updates Cannot Write Back", () => {
+  const counter = new SharedValue({ n: 1 });
+  assertThrows(() => counter.update(() => (counter.set({ n: 2 }), { n: 3 })), Error, "cannot write");
+  assertThrows(() => counter.update((c) => (counter.update(() => c), c)), Error, "cannot write");
+
+  // The failed updates left the value and its lock alone
+  counter.update((c) => ({ n: c.n + 1 }));
+  assertEquals(counter.get(), { n: 2 });
+  assertEquals(counter.version, 1);
+});
@@ -0,0 +1,40 @@
+import { assert, assertInstanceOf, assertRejects, assertStringIncludes } from "@std/assert";
+import { shutdown, spawn, WorkerError } from "experimental-threads";
+
+function where() {
+  return new Error("here").stack!;
+}
+
+Deno.test("Worker Stack Frames Map to the Original Source", async () => {
+  try {
+    // Stacks taken inside workers point at this file, through the closure and
+    // the module code it calls, in nested workers too
+    const [stack, nestedStack] = await eval(spawn(async () => {
+      const own = where();
+      const nested = await eval(spawn(() => Promise.resolve(where())));
+      return [own, nested];
+    }));
+    for (const s of [stack, nestedStack]) {
+      assert(!s.includes(".workers"), s);
+      assertStringIncludes(s, "source-maps/test.ts:5:10");
+    }
+    assertStringIncludes(stack, "source-maps/test.ts:13:19");
+    assertStringIncludes(nestedStack, "source-maps/test.ts:14:61");
+
+    const err = await assertRejects(
+      () =>
+        eval(spawn(async () => {
+          await eval(spawn(() => {
+            throw new Error("deep");
+          }));
+        })),
+      WorkerError,
+    );
+    const inner = err.cause as WorkerError;
+    assertInstanceOf(inner, WorkerError);
+    assertStringIncludes((inner.cause as Error).stack!, "source-maps/test.ts:28:19");
+    assert(!err.stack!.includes(".workers"), err.stack);
+  } finally {
+    shutdown();
+  }
+});
@@ -0,0 +1,42 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { AbortError, shutdown, spawn, TimeoutError } from "experimental-threads";
+
+Deno.test("Spawn Cancellation and Timeouts", async () => {
+  try {
+    // Runaway task is terminated once the deadline passes
+    await assertRejects(
+      () =>
+        eval(spawn(() => {
+          while (true) { /* spin */ }
+        }, { timeout: 200 })),
+      TimeoutError,
+    );
+
+    // Aborting mid-flight rejects with the signal's reason as cause
+    const controller = new AbortController();
+    const task = eval(spawn(async () => {
+      await new Promise((r) => setTimeout(r, 10_000));
+      return "unreachable";
+    }, { signal: controller.signal }));
+
+    setTimeout(() => controller.abort("stop"), 200);
+    const err = await assertRejects(() => task, AbortError);
+    assertEquals(err.cause, "stop");
+
+    // Already aborted signals reject without starting a worker
+    await assertRejects(
+      () => eval(spawn(() => Promise.resolve(1), { signal: AbortSignal.abort() })),
+      AbortError,
+    );
+
+    // Tasks that finish in time are unaffected
+    const value = 21;
+    const result = await eval(spawn(() => value * 2, { timeout: 5_000 }));
+    assertEquals(result, 42);
+
+    // Starting a cold worker does not count against the deadline
+    assertEquals(await eval(spawn(() => value + 1, { timeout: 50 })), 22);
+  } finally {
+    shutdown();
+  }
+});
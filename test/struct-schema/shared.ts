@@ -0,0 +1,10 @@
+import { defineStruct, Global } from "experimental-threads";
+
+export const Stats = defineStruct({
+  count: "i32",
+  total: "f64",
+  bytes: "u64",
+  flags: "u8[16]",
+});
+
+export const stats = new Global(new Stats());
@@ -0,0 +1,57 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { defineStruct, shutdown, spawn } from "experimental-threads";
+import { Stats, stats } from "./shared.ts";
+
+Deno.test("Shared Structs Defined From a Schema", async () => {
+  try {
+    assertEquals(Stats.byteLength, 40);
+    const local = new Stats({ count: 1, flags: [7, 8] });
+    assertEquals(local.flags.slice(0, 3), new Uint8Array([7, 8, 0]));
+
+    // Captured instances and the Global hydrate to the same memory
+    const hydrated = await Promise.all(Array.from({ length: 4 }, (_, i) =>
+      eval(spawn(() => {
+        for (let n = 0; n < 100; n++) {
+          local.add("count", 1);
+          stats.value.add("count", 1);
+          stats.value.add("total", 0.5);
+          stats.value.add("bytes", 3n);
+        }
+        Atomics.store(stats.value.flags, i, 1);
+        return local instanceof Stats;
+      }))
+    ));
+
+    assertEquals(hydrated, [true, true, true, true]);
+    assertEquals(local.count, 401);
+    assertEquals(stats.value.count, 400);
+    assertEquals(stats.value.total, 200);
+    assertEquals(stats.value.bytes, 1200n);
+    assertEquals([...stats.value.flags.slice(0, 5)], [1, 1, 1, 1, 0]);
+
+    stats.value.total = 1.25;
+    assertEquals(stats.value.exchange("total", 2), 1.25);
+    assertEquals(stats.value.compareExchange("count", 400, 0), 400);
+    assertEquals(stats.value.count, 0);
+
+    for (const name of ["state", "_layout", "_update", "_scalar", "_replaceBuffer", "then"]) {
+      assertThrows(() => defineStruct({ [name]: "i32" }), TypeError, "reserved");
+    }
+    assertThrows(() => defineStruct({ x: "i33" as "i32" }), TypeError);
+  } finally {
+    shutdown();
+  }
+});
+
+Deno.test("Fields Named After Scalar Types", () => {
+  const Named = defineStruct({ i32: "u8[4]", n: "i32" });
+
+  // Either field may be read first
+  const scalarFirst = new Named({ i32: [1, 2, 3, 4], n: 5 });
+  assertEquals(scalarFirst.n, 5);
+  assertEquals(scalarFirst.i32, new Uint8Array([1, 2, 3, 4]));
+
+  const arrayFirst = new Named({ i32: [1, 2, 3, 4], n: 5 });
+  assertEquals(arrayFirst.i32, new Uint8Array([1, 2, 3, 4]));
+  assertEquals(arrayFirst.n, 5);
+});
@@ -0,0 +1,83 @@
+import { assert, assertEquals, assertInstanceOf, assertRejects, assertStringIncludes } from "@std/assert";
+import { shutdown, spawn, TimeoutError, WorkerError } from "experimental-threads";
+
+class ValidationError extends Error {
+  override name = "ValidationError";
+
+  constructor(message: string, readonly field: string, options?: ErrorOptions) {
+    super(message, options);
+  }
+}
+
+function checkAge(age: number) {
+  if (age > 150) throw new ValidationError("implausible age", "age", { cause: new RangeError(`${age} > 150`) });
+}
+
+Deno.test("Worker Errors Keep Their Shape and Source Locations", async () => {
+  try {
+    const err = await assertRejects(
+      () =>
+        eval(spawn(() => {
+          checkAge(200);
+          return Promise.resolve();
+        })),
+      WorkerError,
+      "ValidationError: implausible age",
+    );
+
+    // Unknown classes keep their name, message and own properties
+    const cause = err.cause as ValidationError;
+    assertInstanceOf(cause, Error);
+    assertEquals([cause.name, cause.message, cause.field], ["ValidationError", "implausible age", "age"]);
+    assertInstanceOf(cause.cause, RangeError);
+    assertEquals((cause.cause as RangeError).message, "200 > 150");
+
+    // Frames point at this file rather than the generated worker file, from
+    // the module-level helper through the closure to the spawn() call
+    assert(!err.stack!.includes(".workers"), err.stack);
+    assertStringIncludes(err.stack!, "worker-errors/test.ts:13:");
+    assertStringIncludes(err.stack!, "worker-errors/test.ts:21:11");
+    assert(err.stack!.endsWith("worker-errors/test.ts:20:14)"), err.stack);
+
+    // Built-in and library classes are rebuilt as themselves
+    const aggregate = await assertRejects(() =>
+      eval(spawn(() => {
+        throw new AggregateError([new TypeError("first"), new TimeoutError(5)], "both failed");
+      })), WorkerError);
+    assertInstanceOf(aggregate.cause, AggregateError);
+    const [first, second] = (aggregate.cause as AggregateError).errors;
+    assertInstanceOf(first, TypeError);
+    assertInstanceOf(second, TimeoutError);
+    assertEquals(second.timeout, 5);
+
+    // Anything else thrown becomes the cause as is
+    const thrown = await assertRejects(() =>
+      eval(spawn(() => {
+        throw { code: 42 };
+      })), WorkerError);
+    assertEquals(thrown.cause, { code: 42 });
+  } finally {
+    shutdown();
+  }
+});
+
+Deno.test("Uncaught Worker Errors Become WorkerErrors", async () => {
+  try {
+    const err = await assertRejects(
+      () =>
+        eval(spawn(() => {
+          setTimeout(() => {
+            throw new RangeError("escaped the task");
+          });
+          return new Promise(() => {});
+        })),
+      WorkerError,
+      "RangeError: escaped the task",
+    );
+    assertInstanceOf(err.cause, RangeError);
+    assert(!err.stack!.includes(".workers"), err.stack);
+    assertStringIncludes(err.stack!, "worker-errors/test.ts:70:19");
+  } finally {
+    shutdown();
+  }
+});